@@ -1,5 +1,7 @@
 import { Task, TaskResult, Plan, SubTask, Stream, Emiter } from './task'
 import { TaskQueue, DependencyTaskQueue } from './queue'
+import { resolveTemplate } from './template'
+import { Emitter } from './emitter'
 import { Socket } from 'socket.io-client'
 import { Server as SocketIOServer } from 'socket.io'
 
@@ -28,7 +30,7 @@ export class AgentWorker implements Agent {
   readonly meta: { type: string }
   readonly id: string
   
-  private resultEmitter?: (result: Task | TaskResult) => void
+  private events = new Emitter<Task | TaskResult>()
   private taskResults = new Map<string, TaskResult>()
 
   constructor(
@@ -41,8 +43,8 @@ export class AgentWorker implements Agent {
     this.meta = meta
   }
 
-  on(listener: (result: Task | TaskResult) => void): void {
-    this.resultEmitter = listener
+  on(listener: (result: Task | TaskResult) => void): () => void {
+    return this.events.on(listener)
   }
 
   emit(taskOrResult: Task | TaskResult): void {
@@ -50,9 +52,7 @@ export class AgentWorker implements Agent {
       this.processTask(taskOrResult)
     } else {
       // Handle TaskResult - this would be for forwarding results
-      if (this.resultEmitter) {
-        this.resultEmitter(taskOrResult)
-      }
+      this.events.emit(taskOrResult)
     }
   }
 
@@ -96,9 +96,7 @@ export class AgentWorker implements Agent {
 
   private emitResult(result: TaskResult): void {
     this.taskResults.set(result.id, result)
-    if (this.resultEmitter) {
-      this.resultEmitter(result)
-    }
+    this.events.emit(result)
   }
 
   private isPlan(data: any): data is Plan {
@@ -121,9 +119,7 @@ export class AgentWorker implements Agent {
         if (this.isSubTask(item)) {
           const resolvedSubtask: SubTask = {
             ...item,
-            params: typeof item.params === 'function' 
-              ? this.resolveParams(item)
-              : item.params
+            params: this.resolveParams(item)
           }
           
           planQueue.enqueue(resolvedSubtask)
@@ -160,16 +156,14 @@ export class AgentWorker implements Agent {
   }
 
   private resolveParams(subtask: SubTask): any {
-    if (typeof subtask.params !== 'function') {
-      return subtask.params
-    }
-
     const depResults = (subtask.dependencies || []).map(depId => {
       const result = this.taskResults.get(depId)
       return result?.result.data
     })
 
-    return subtask.params(...depResults)
+    return typeof subtask.params === 'function'
+      ? subtask.params(...depResults)
+      : resolveTemplate(subtask.params, depResults)
   }
 
   private isSubTask(item: SubTask | Plan): item is SubTask {
@@ -186,7 +180,7 @@ export class AgentProxy implements Agent {
   readonly id: string
   
   private socket: Socket
-  private resultEmitter?: (result: Task | TaskResult) => void
+  private events = new Emitter<Task | TaskResult>()
 
   constructor(id: string, meta: { type: string }, socket: Socket) {
     this.id = id
@@ -199,21 +193,17 @@ export class AgentProxy implements Agent {
   private setupSocketListeners(): void {
     // Listen for results from the worker
     this.socket.on('task-result', (result: TaskResult) => {
-      if (this.resultEmitter) {
-        this.resultEmitter(result)
-      }
+      this.events.emit(result)
     })
     
     // Listen for tasks from the worker (if worker needs to emit tasks)
     this.socket.on('task', (task: Task) => {
-      if (this.resultEmitter) {
-        this.resultEmitter(task)
-      }
+      this.events.emit(task)
     })
   }
 
-  on(listener: (result: Task | TaskResult) => void): void {
-    this.resultEmitter = listener
+  on(listener: (result: Task | TaskResult) => void): () => void {
+    return this.events.on(listener)
   }
 
   emit(taskOrResult: Task | TaskResult): void {
@@ -280,7 +270,7 @@ export class Router {
   private agents = new Map<string, Agent>()
   private taskQueue: TaskQueue
   private taskResults = new Map<string, TaskResult>()
-  private resultEmitter?: (result: TaskResult) => void
+  private results = new Emitter<TaskResult>()
 
   constructor(taskQueue?: TaskQueue) {
     this.taskQueue = taskQueue || new DependencyTaskQueue()
@@ -300,9 +290,7 @@ export class Router {
         }
         
         // Emit result to router listeners
-        if (this.resultEmitter) {
-          this.resultEmitter(taskOrResult)
-        }
+        this.results.emit(taskOrResult)
       }
       // Handle tasks if needed (for plan execution, etc.)
     })
@@ -312,8 +300,8 @@ export class Router {
     return 'result' in item && 'start' in item && 'end' in item
   }
 
-  onResult(listener: (result: TaskResult) => void): void {
-    this.resultEmitter = listener
+  onResult(listener: (result: TaskResult) => void): () => void {
+    return this.results.on(listener)
   }
 
   enqueueTask(task: Task): void {
@@ -335,9 +323,7 @@ export class Router {
         id: task.id
       }
       this.taskResults.set(task.id, result)
-      if (this.resultEmitter) {
-        this.resultEmitter(result)
-      }
+      this.results.emit(result)
       return
     }
 
@@ -0,0 +1,100 @@
+import { Stream, Emiter, Unsubscribe } from './types'
+
+/**
+ * Passes every value emitted to all of its listeners, in the order they
+ * subscribed. Can also be consumed with `for await`:
+ *
+ *   for await (const event of emitter) { ... }
+ *
+ * which buffers values until they are read, and finishes on `close`.
+ */
+export class Emitter<T> implements Stream<T>, Emiter<T>, AsyncIterable<T> {
+  private listeners: ((value: T) => void)[] = []
+  // ends the iterators currently consuming the emitter
+  private closers = new Set<() => void>()
+  private closed = false
+
+  on(listener: (value: T) => void): Unsubscribe {
+    // wrapped so the same function can subscribe twice and leave once
+    const subscription = (value: T) => listener(value)
+    this.listeners.push(subscription)
+
+    return () => {
+      const index = this.listeners.indexOf(subscription)
+      if (index !== -1) this.listeners.splice(index, 1)
+    }
+  }
+
+  once(listener: (value: T) => void): Unsubscribe {
+    const unsubscribe = this.on(value => {
+      unsubscribe()
+      listener(value)
+    })
+    return unsubscribe
+  }
+
+  emit(value: T): void {
+    // A listener may unsubscribe while being called
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(value)
+      } catch (error) {
+        // One failing listener shouldn't keep the value from the others
+        console.error('Listener failed:', error)
+      }
+    }
+  }
+
+  get listenerCount(): number {
+    return this.listeners.length
+  }
+
+  // Removes every listener and finishes the iterators, including those
+  // created afterwards
+  close(): void {
+    this.closed = true
+    this.listeners = []
+    this.closers.forEach(close => close())
+    this.closers.clear()
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    const buffered: T[] = []
+    let done = this.closed
+    let wake: (() => void) | undefined
+
+    const unsubscribe = this.on(value => {
+      buffered.push(value)
+      wake?.()
+    })
+    const close = () => {
+      done = true
+      wake?.()
+    }
+    this.closers.add(close)
+
+    const finish = (): IteratorResult<T> => {
+      unsubscribe()
+      this.closers.delete(close)
+      done = true
+      buffered.length = 0
+      return { value: undefined, done: true }
+    }
+
+    const iterator: AsyncIterableIterator<T> = {
+      next: async () => {
+        while (!buffered.length && !done) {
+          await new Promise<void>(resolve => wake = resolve)
+          wake = undefined
+        }
+        // values emitted before closing are still read
+        if (buffered.length) return { value: buffered.shift()!, done: false }
+        return finish()
+      },
+      // called when a `for await` loop is left early
+      return: async () => finish(),
+      [Symbol.asyncIterator]: () => iterator
+    }
+    return iterator
+  }
+}
@@ -0,0 +1,55 @@
+import { SerializedError, TaskResult } from './types'
+
+export function isSerializedError(value: unknown): value is SerializedError {
+  return typeof value === 'object'
+    && value !== null
+    && typeof (value as SerializedError).name === 'string'
+    && typeof (value as SerializedError).message === 'string'
+}
+
+/**
+ * Turns anything thrown into a plain object keeping the error's name,
+ * message, stack, cause and own properties. `JSON.stringify(new Error())`
+ * would otherwise give `{}`.
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof Error) {
+    const serialized: SerializedError = {
+      name: error.name,
+      message: error.message,
+      stack: error.stack
+    }
+
+    for (const [key, value] of Object.entries(error)) {
+      if (key === 'cause') continue
+      serialized[key] = value instanceof Error ? serializeError(value) : value
+    }
+
+    if (error.cause !== undefined) {
+      serialized.cause = serializeError(error.cause)
+    }
+    return serialized
+  }
+
+  if (isSerializedError(error)) return error
+
+  return {
+    name: 'Error',
+    message: typeof error === 'string' ? error : JSON.stringify(error) ?? String(error)
+  }
+}
+
+// Serializes the error of a result, whether it is at the top level or
+// wrapped by the executor as `result: { error }`
+export function serializeResultError(result: TaskResult): TaskResult {
+  if (result.error !== undefined) {
+    return { ...result, error: serializeError(result.error) }
+  }
+
+  const payload = result.result as { error?: unknown } | undefined
+  if (payload && typeof payload === 'object' && 'error' in payload) {
+    return { ...result, result: { ...payload, error: serializeError(payload.error) } }
+  }
+
+  return result
+}
@@ -0,0 +1,263 @@
+import { io, Socket } from 'socket.io-client'
+import { TaskLog, TaskPage, TaskQuery, TaskResult, TaskSummary } from '../../../types'
+import { ExecutorName, ExecutorRegistry, OutputOf, TaskFor, TaskOutcome } from './registry.js'
+import { ClientClosedError, InvalidTaskError, RequestError } from './errors.js'
+
+// A submitted task, with its output type carried over from the registry
+export class SubmittedTask<Out = unknown> {
+  constructor(readonly id: string, private client: RouterClient<any>) {}
+
+  result(): Promise<TaskOutcome<Out>> {
+    return this.client.result<Out>(this.id)
+  }
+
+  logs(): AsyncGenerator<TaskLog> {
+    return this.client.logs(this.id)
+  }
+
+  cancel(): Promise<boolean> {
+    return this.client.cancel(this.id)
+  }
+}
+
+type Waiter = {
+  promise: Promise<TaskOutcome<any>>
+  resolve(result: TaskOutcome<any>): void
+  reject(error: Error): void
+}
+
+const reviveResult = <T extends TaskResult<any>>(result: T): T => ({
+  ...result,
+  start: new Date(result.start),
+  end: new Date(result.end)
+})
+
+const reviveSummary = (task: TaskSummary): TaskSummary => ({
+  ...task,
+  ...(task.start && { start: new Date(task.start) }),
+  ...(task.end && { end: new Date(task.end) }),
+  history: task.history.map(transition => ({ ...transition, time: new Date(transition.time) }))
+})
+
+export type ClientOptions = {
+  // bearer token, for routers requiring authentication
+  token?: string
+}
+
+/**
+ * Talks to a router over its HTTP API, and Socket.IO for results and logs
+ * pushed as they happen. R types the params and results of tasks by
+ * executor, see ExecutorRegistry.
+ */
+export class RouterClient<R extends ExecutorRegistry<R> = any> {
+  private resultSocket?: Socket
+  // task id -> callers waiting for its result
+  private waiters = new Map<string, Waiter>()
+
+  constructor(readonly url: string, private options: ClientOptions = {}) {
+    this.url = url.replace(/\/+$/, '')
+  }
+
+  /**
+   * Queues a task on the router
+   * @throws  InvalidTaskError if its params don't match the executor's schema
+   * @throws  RequestError with status 409 if a task with its id was already submitted
+   */
+  async submit<K extends ExecutorName<R>>(task: TaskFor<R, K>): Promise<SubmittedTask<OutputOf<R[K]>>> {
+    const response = await this.request('/tasks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(task)
+    })
+
+    if (response.status === 400) {
+      const body = await response.json()
+      if (body.errors) throw new InvalidTaskError(task.id, body.errors)
+      throw new RequestError(400, body.error)
+    }
+    await this.check(response)
+
+    return new SubmittedTask(task.id, this)
+  }
+
+  // Resolves once the task finishes, whether it succeeded, failed or was
+  // cancelled. Rejects with a 404 RequestError if the router doesn't know it.
+  result<Out = unknown>(taskId: string): Promise<TaskOutcome<Out>> {
+    const existing = this.waiters.get(taskId)
+    if (existing) return existing.promise
+
+    const waiter = {} as Waiter
+    waiter.promise = new Promise((resolve, reject) => {
+      waiter.resolve = resolve
+      waiter.reject = reject
+    })
+    this.waiters.set(taskId, waiter)
+
+    const socket = this.results()
+    // otherwise watched once connected
+    if (socket.connected) socket.emit('watch', taskId)
+
+    return waiter.promise
+  }
+
+  /**
+   * Yields the task's output as it is produced, starting with what it
+   * printed before being followed, and returns once the task finishes
+   * @throws  RequestError with status 404 if the router doesn't know the task
+   */
+  async *logs(taskId: string): AsyncGenerator<TaskLog> {
+    const socket = this.connect('/logs')
+    const pending: TaskLog[] = []
+    let ended = false
+    let refused: Error | undefined
+    let lastTime = 0
+    let wake: (() => void) | undefined
+
+    const notify = () => {
+      wake?.()
+      wake = undefined
+    }
+
+    // The router replays what it kept of the output on every follow, so
+    // after reconnecting skip the chunks older than those already received
+    socket.on('connect', () => socket.emit('follow', taskId))
+    socket.on('task-log', (log: TaskLog) => {
+      if (log.id !== taskId) return
+      const time = new Date(log.time)
+      if (time.getTime() < lastTime) return
+      lastTime = time.getTime()
+      pending.push({ ...log, time })
+      notify()
+    })
+    socket.on('task-log-end', (result: TaskResult) => {
+      if (result.id !== taskId) return
+      ended = true
+      notify()
+    })
+    socket.on('task-not-found', (id: string) => {
+      if (id !== taskId) return
+      refused = new RequestError(404, `Task ${taskId} not found`)
+      notify()
+    })
+    socket.on('connect_error', (error) => {
+      if (socket.active) return
+      refused = new RequestError(401, error.message)
+      notify()
+    })
+
+    try {
+      while (true) {
+        const log = pending.shift()
+        if (log) {
+          yield log
+        } else if (refused) {
+          throw refused
+        } else if (ended) {
+          return
+        } else {
+          await new Promise<void>(resolve => wake = resolve)
+        }
+      }
+    } finally {
+      socket.disconnect()
+    }
+  }
+
+  // false if the task is unknown or already finished
+  async cancel(taskId: string): Promise<boolean> {
+    const response = await this.request(`/tasks/${encodeURIComponent(taskId)}`, {
+      method: 'DELETE'
+    })
+    if (response.status === 404) return false
+    await this.check(response)
+    return true
+  }
+
+  // The task's status and history, with its result once finished
+  async get(taskId: string): Promise<TaskSummary | undefined> {
+    const response = await this.request(`/tasks/${encodeURIComponent(taskId)}`)
+    if (response.status === 404) return undefined
+    await this.check(response)
+
+    return reviveSummary(await response.json())
+  }
+
+  async list(query: TaskQuery = {}): Promise<TaskPage> {
+    const search = new URLSearchParams()
+    for (const [key, value] of Object.entries(query)) {
+      if (value === undefined) continue
+      search.set(key, value instanceof Date ? value.toISOString() : Array.isArray(value) ? value.join(',') : String(value))
+    }
+
+    const response = await this.request(`/tasks?${search}`)
+    await this.check(response)
+
+    const page = await response.json() as TaskPage
+    return { ...page, tasks: page.tasks.map(reviveSummary) }
+  }
+
+  // Stops listening for results, rejecting whatever is still awaited
+  close(): void {
+    this.resultSocket?.disconnect()
+    this.resultSocket = undefined
+
+    this.waiters.forEach((waiter, taskId) => waiter.reject(new ClientClosedError(taskId)))
+    this.waiters.clear()
+  }
+
+  private results(): Socket {
+    if (this.resultSocket) return this.resultSocket
+
+    const socket = this.connect('/results')
+    // The router forgets what a socket watched when it disconnects
+    socket.on('connect', () => {
+      this.waiters.forEach((_, taskId) => socket.emit('watch', taskId))
+    })
+    // Network failures are retried, a token the router refuses isn't
+    socket.on('connect_error', (error) => {
+      if (socket.active) return
+      this.waiters.forEach(waiter => waiter.reject(new RequestError(401, error.message)))
+      this.waiters.clear()
+      this.resultSocket = undefined
+    })
+    socket.on('task-not-found', (taskId: string) => {
+      this.waiters.get(taskId)?.reject(new RequestError(404, `Task ${taskId} not found`))
+      this.waiters.delete(taskId)
+    })
+    socket.on('task-result', (result: TaskOutcome<any>) => {
+      const waiter = this.waiters.get(result.id)
+      if (!waiter) return
+
+      this.waiters.delete(result.id)
+      waiter.resolve(reviveResult(result))
+    })
+
+    this.resultSocket = socket
+    return socket
+  }
+
+  private request(path: string, init: RequestInit = {}): Promise<Response> {
+    const { token } = this.options
+    return fetch(`${this.url}${path}`, {
+      ...init,
+      headers: {
+        ...init.headers as Record<string, string>,
+        ...(token && { Authorization: `Bearer ${token}` })
+      }
+    })
+  }
+
+  private connect(namespace: string): Socket {
+    const { token } = this.options
+    return io(`${this.url}${namespace}`, {
+      ...(token && { auth: { token } })
+    })
+  }
+
+  private async check(response: Response): Promise<void> {
+    if (response.ok) return
+
+    const body = await response.json().catch(() => ({}))
+    throw new RequestError(response.status, body.error || response.statusText)
+  }
+}
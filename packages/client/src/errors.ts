@@ -0,0 +1,29 @@
+import { FieldError } from '../../../schema'
+
+// The router answered a request with an error status
+export class RequestError extends Error {
+  readonly code: string = 'request-failed'
+
+  constructor(readonly status: number, message: string) {
+    super(message)
+    this.name = 'RequestError'
+  }
+}
+
+export class InvalidTaskError extends RequestError {
+  readonly code = 'invalid-params'
+
+  constructor(readonly taskId: string, readonly errors: FieldError[]) {
+    super(400, `Invalid params for task ${taskId}: ${errors.map(error => `${error.field} ${error.message}`).join(', ')}`)
+    this.name = 'InvalidTaskError'
+  }
+}
+
+export class ClientClosedError extends Error {
+  readonly code = 'client-closed'
+
+  constructor(readonly taskId: string) {
+    super(`Client closed while waiting for the result of task ${taskId}`)
+    this.name = 'ClientClosedError'
+  }
+}
@@ -0,0 +1,11 @@
+export { RouterClient, SubmittedTask } from './client.js'
+export type { ClientOptions } from './client.js'
+export { RequestError, InvalidTaskError, ClientClosedError } from './errors.js'
+export type {
+  ExecutorRegistry,
+  ExecutorName,
+  ParamsOf,
+  OutputOf,
+  TaskFor,
+  TaskOutcome
+} from './registry.js'
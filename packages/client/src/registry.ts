@@ -0,0 +1,35 @@
+import { Executor, SerializedError, Task, TaskResult } from '../../../types'
+
+/**
+ * Maps executor names to the executors serving them, only as types, e.g.
+ *
+ *   type Executors = { shell: Shell }
+ *   const client = new RouterClient<Executors>('http://localhost:3000')
+ *
+ * so that the params of submitted tasks and their results are typed
+ */
+export type ExecutorRegistry<R = any> = {
+  [K in keyof R]: Executor<any, any, any, any>
+}
+
+export type ExecutorName<R> = keyof R & string
+
+export type ParamsOf<E> = E extends Executor<any, any, any, any>
+  ? Parameters<E['run']>[0]
+  : never
+
+export type OutputOf<E> = E extends Executor<any, any, any, any>
+  ? Awaited<ReturnType<E['run']>>
+  : never
+
+// A task for the executor registered under K
+export type TaskFor<R, K extends keyof R> = Omit<Task, 'executor' | 'params'> & {
+  executor: K
+  params: ParamsOf<R[K]>
+}
+
+// Workers report what the executor resolved with as `data`, or what it threw
+export type TaskOutcome<Out = unknown> = TaskResult<
+  | { data: Out; error?: never }
+  | { error: SerializedError; data?: never }
+>
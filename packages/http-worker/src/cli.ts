@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+import { HttpWorker } from './index.js'
+import { disconnectOnShutdown, workerOptionsFromEnv } from '../../worker/src/index.js'
+
+const serverUrl = process.env.SERVER_URL || 'http://localhost:3000'
+const agentId = process.env.AGENT_ID || `http-agent-${Date.now()}`
+const timeoutMs = process.env.REQUEST_TIMEOUT
+  ? parseInt(process.env.REQUEST_TIMEOUT, 10)
+  : undefined
+
+console.log(`Starting HTTP Agent Worker with ID: ${agentId}`)
+console.log(`Connecting to server: ${serverUrl}`)
+
+const worker = new HttpWorker(agentId, serverUrl, { ...workerOptionsFromEnv(process.env), timeoutMs })
+
+worker.connect()
+disconnectOnShutdown(worker)
@@ -0,0 +1,116 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { Http, HttpStatusError, HttpTimeoutError } from './index.js'
+
+// Answers by path, echoing the request for the paths that don't say otherwise
+const stub = (): Server => createServer((req, res) => {
+  let body = ''
+  req.on('data', chunk => body += chunk)
+  req.on('end', () => {
+    switch (req.url) {
+      case '/text':
+        res.setHeader('content-type', 'text/plain')
+        return res.end('hello')
+      case '/malformed':
+        res.setHeader('content-type', 'application/json')
+        return res.end('{"oops"')
+      case '/missing':
+        res.statusCode = 404
+        return res.end('not here')
+      case '/slow':
+        return setTimeout(() => res.end('late'), 1000)
+      default:
+        res.setHeader('content-type', 'application/json; charset=utf-8')
+        res.setHeader('x-stub', 'yes')
+        res.end(JSON.stringify({ method: req.method, contentType: req.headers['content-type'] ?? null, body }))
+    }
+  })
+})
+
+describe('Http', () => {
+  let server: Server
+  let base: string
+  const http = new Http({ timeoutMs: 200 })
+
+  beforeAll(async () => {
+    server = stub()
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(() => {
+    server.closeAllConnections()
+    server.close()
+  })
+
+  test('parses JSON responses and sends other bodies as JSON', async () => {
+    const result = await http.run({ method: 'POST', url: `${base}/echo`, body: { a: 1 } })
+
+    expect(result.status).toBe(200)
+    expect(result.headers['x-stub']).toBe('yes')
+    expect(result.body).toEqual({ method: 'POST', contentType: 'application/json', body: '{"a":1}' })
+  })
+
+  test('keeps a content-type given in the headers', async () => {
+    const result = await http.run({
+      method: 'PUT',
+      url: `${base}/echo`,
+      headers: { 'Content-Type': 'application/merge-patch+json' },
+      body: { a: 1 }
+    })
+    expect((result.body as { contentType: string }).contentType).toBe('application/merge-patch+json')
+  })
+
+  test('sends string bodies as they are', async () => {
+    const result = await http.run({ method: 'POST', url: `${base}/echo`, body: 'raw' })
+    expect((result.body as { body: string }).body).toBe('raw')
+  })
+
+  test('keeps text responses as text', async () => {
+    const result = await http.run({ url: `${base}/text` })
+    expect(result.body).toBe('hello')
+  })
+
+  test('keeps malformed JSON as text', async () => {
+    const result = await http.run({ url: `${base}/malformed` })
+    expect(result.body).toBe('{"oops"')
+  })
+
+  test('fails on statuses other than 2xx by default', async () => {
+    const error = await http.run({ url: `${base}/missing` }).catch(error => error)
+
+    expect(error).toBeInstanceOf(HttpStatusError)
+    expect((error as HttpStatusError).result.status).toBe(404)
+    expect((error as HttpStatusError).result.body).toBe('not here')
+  })
+
+  test('succeeds with the statuses expected', async () => {
+    const result = await http.run({ url: `${base}/missing`, expectStatus: [404] })
+    expect(result.status).toBe(404)
+  })
+
+  test('times out', async () => {
+    const error = await http.run({ url: `${base}/slow` }).catch(error => error)
+
+    expect(error).toBeInstanceOf(HttpTimeoutError)
+    expect((error as HttpTimeoutError).code).toBe('timeout')
+  })
+
+  test('is cancelled through the signal', async () => {
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 50)
+
+    const error = await http.run({ url: `${base}/slow`, timeoutMs: 5000 }, { signal: controller.signal })
+      .catch(error => error)
+    expect(error).not.toBeInstanceOf(HttpTimeoutError)
+    expect((error as Error).message).toBe('Request cancelled')
+  })
+
+  test('is cancelled right away if the signal already is', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(http.run({ url: `${base}/echo` }, { signal: controller.signal })).rejects.toThrow('Request cancelled')
+  })
+})
@@ -0,0 +1,137 @@
+import { Agent, Executor, RunOptions } from '../../../types'
+import { Infer, array, integer, json, object, oneOf, optional, record, string } from '../../../schema'
+import { ExecutorWorker, WorkerOptions } from '../../worker/src/index.js'
+
+export const httpMethods = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'] as const
+
+export const httpParamsSchema = object({
+  method: optional(oneOf(httpMethods)), // default GET
+  url: string(),
+  headers: optional(record(string())),
+  body: optional(json({ description: 'sent as is if a string, as JSON otherwise' })),
+  timeoutMs: optional(integer({ description: 'overrides the executor default' })),
+  expectStatus: optional(array(integer(), {
+    minItems: 1,
+    description: 'status codes the request succeeds with, default any 2xx'
+  })),
+})
+
+export type HttpParams = Infer<typeof httpParamsSchema>
+
+export type HttpResult = {
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  // parsed when the response is JSON, text otherwise or if it doesn't parse
+  body: unknown
+  url: string // after redirects
+  durationMs: number
+}
+
+// Rejected with when the response status isn't one expected
+export class HttpStatusError extends Error {
+  constructor(readonly result: HttpResult) {
+    super(`Request failed with status ${result.status} ${result.statusText}`.trim())
+    this.name = 'HttpStatusError'
+  }
+}
+
+export class HttpTimeoutError extends Error {
+  readonly code = 'timeout'
+
+  constructor(readonly timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`)
+    this.name = 'HttpTimeoutError'
+  }
+}
+
+export type HttpOptions = {
+  // for requests not setting `timeoutMs`, default 30 seconds
+  timeoutMs?: number
+}
+
+const isJson = (contentType: string | null) =>
+  !!contentType && /^application\/(.+\+)?json\b/i.test(contentType)
+
+// A malformed JSON body is kept as text rather than failing the request
+function parseBody(text: string, contentType: string | null): unknown {
+  if (!text || !isJson(contentType)) return text
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+export class Http implements Executor<HttpParams, HttpResult> {
+  readonly type = 'http'
+  readonly paramsSchema = httpParamsSchema
+
+  constructor(private options: HttpOptions = {}) {}
+
+  async run(params: HttpParams, options: RunOptions = {}): Promise<HttpResult> {
+    const { method = 'GET', url, headers = {}, body, expectStatus } = params
+    const timeoutMs = params.timeoutMs ?? this.options.timeoutMs ?? 30000
+
+    if (options.signal?.aborted) throw new Error('Request cancelled')
+
+    // Aborted on cancellation as well as on timeout
+    const controller = new AbortController()
+    const cancel = () => controller.abort()
+    options.signal?.addEventListener('abort', cancel, { once: true })
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+
+    const start = Date.now()
+    try {
+      const encoded = body === undefined || typeof body === 'string' ? body : JSON.stringify(body)
+      const hasContentType = Object.keys(headers).some(name => name.toLowerCase() === 'content-type')
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          ...(body !== undefined && typeof body !== 'string' && !hasContentType && { 'content-type': 'application/json' }),
+          ...headers
+        },
+        body: encoded,
+        signal: controller.signal
+      })
+
+      const text = await response.text()
+      const result: HttpResult = {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers.entries()),
+        body: parseBody(text, response.headers.get('content-type')),
+        url: response.url || url,
+        durationMs: Date.now() - start
+      }
+
+      const expected = expectStatus
+        ? expectStatus.includes(result.status)
+        : result.status >= 200 && result.status < 300
+      if (!expected) throw new HttpStatusError(result)
+
+      return result
+    } catch (error) {
+      if (timedOut) throw new HttpTimeoutError(timeoutMs)
+      if (options.signal?.aborted) throw new Error('Request cancelled')
+      throw error
+    } finally {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', cancel)
+    }
+  }
+}
+
+export type HttpWorkerOptions = HttpOptions & WorkerOptions
+
+// A worker making HTTP requests only
+export class HttpWorker extends ExecutorWorker implements Agent {
+  constructor(id: string, serverUrl: string, options: HttpWorkerOptions = {}) {
+    super(id, serverUrl, [new Http({ timeoutMs: options.timeoutMs })], options)
+  }
+}
@@ -0,0 +1,28 @@
+#!/usr/bin/env node
+import { LlmWorker, OpenAIProvider } from './index.js'
+import { disconnectOnShutdown, workerOptionsFromEnv } from '../../worker/src/index.js'
+
+const serverUrl = process.env.SERVER_URL || 'http://localhost:3000'
+const agentId = process.env.AGENT_ID || `llm-agent-${Date.now()}`
+const maxSteps = process.env.MAX_STEPS
+  ? parseInt(process.env.MAX_STEPS, 10)
+  : undefined
+
+const model = process.env.LLM_MODEL
+if (!model) {
+  console.error('LLM_MODEL is required')
+  process.exit(1)
+}
+const provider = new OpenAIProvider({
+  model,
+  apiKey: process.env.LLM_API_KEY,
+  baseUrl: process.env.LLM_BASE_URL
+})
+
+console.log(`Starting LLM Agent Worker with ID: ${agentId}`)
+console.log(`Connecting to server: ${serverUrl}`)
+
+const worker = new LlmWorker(agentId, serverUrl, { ...workerOptionsFromEnv(process.env), provider, maxSteps })
+
+worker.connect()
+disconnectOnShutdown(worker)
@@ -0,0 +1,50 @@
+import { Stream } from '../../../types'
+import { Emitter } from '../../../emitter'
+import { ModelProvider, ModelRequest, ModelStep, ProviderOptions, ToolCall } from './provider.js'
+
+// A step of the script, or a function deciding it from the conversation so
+// far, e.g. to use a tool's result. Tool calls get an id if they have none.
+export type ScriptedStep =
+  | ModelStep & { toolCalls?: (Omit<ToolCall, 'id'> & { id?: string })[] }
+  | ((request: ModelRequest) => ModelStep)
+
+/**
+ * Plays a script instead of asking a model, so plans can be built offline
+ * and the same way every time. Thoughts are streamed word by word.
+ */
+export class FakeProvider implements ModelProvider {
+  private step = 0
+  // every request received, to check what the model would have been sent
+  readonly requests: ModelRequest[] = []
+
+  constructor(private script: ScriptedStep[]) {}
+
+  next(request: ModelRequest, options: ProviderOptions = {}): Promise<ModelStep> & Stream<string> {
+    const thoughts = new Emitter<string>()
+    const index = this.step++
+    this.requests.push(structuredClone(request))
+
+    const running = (async () => {
+      // lets the caller subscribe before the thoughts come
+      await undefined
+      try {
+        if (options.signal?.aborted) throw new Error('Request cancelled')
+
+        const scripted = this.script[index]
+        if (!scripted) throw new Error(`Fake provider ran out of steps after ${this.script.length}`)
+
+        const step = typeof scripted === 'function' ? scripted(request) : scripted
+        step.thought?.split(/(?<= )/).forEach(word => thoughts.emit(word))
+
+        return {
+          ...step,
+          toolCalls: step.toolCalls?.map((call, position) => ({ ...call, id: call.id || `call-${index}-${position}` }))
+        }
+      } finally {
+        thoughts.close()
+      }
+    })()
+
+    return Object.assign(running, { on: (listener: (thought: string) => void) => thoughts.on(listener) })
+  }
+}
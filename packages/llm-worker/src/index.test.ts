@@ -0,0 +1,124 @@
+import { describe, test, expect } from 'bun:test'
+import { TaskEvent } from '../../../types'
+import { Router } from '../../router/src/router.js'
+import { Llm, FakeProvider, ScriptedStep, Message } from './index.js'
+
+// Runs the llm executor in process, along with a few tools for it to call
+function setup(script: ScriptedStep[], maxSteps?: number) {
+  const router = new Router()
+  const provider = new FakeProvider(script)
+
+  router.registerExecutor({ type: 'double', run: async ({ n }: { n: number }) => n * 2 })
+  router.registerExecutor({
+    type: 'fail',
+    run: async () => {
+      throw new Error('Broken tool')
+    }
+  })
+  router.registerExecutor({
+    type: 'wait',
+    run: (_params: {}, { signal } = {}) => new Promise((_resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(new Error('Stopped')))
+    })
+  })
+  const planner = router.registerExecutor(new Llm({ provider, maxSteps }))
+
+  return { router, provider, planner }
+}
+
+// Resolves with the first status transition matching
+function nextEvent(router: Router, matches: (event: TaskEvent) => boolean): Promise<TaskEvent> {
+  return new Promise(resolve => {
+    const unsubscribe = router.onTaskEvent(event => {
+      if (!matches(event)) return
+      unsubscribe()
+      resolve(event)
+    })
+  })
+}
+
+const lastMessage = (messages: Message[]) => messages[messages.length - 1] as Extract<Message, { role: 'tool' }>
+
+describe('Llm', () => {
+  test('calls tools and answers with their results', async () => {
+    const { router, provider } = setup([
+      { thought: 'Doubling it', toolCalls: [{ executor: 'double', params: { n: 21 } }] },
+      ({ messages }) => ({ answer: lastMessage(messages).content })
+    ])
+
+    router.enqueueTask({ id: 'goal', executor: 'llm', params: { goal: 'Double 21', executors: ['double'] } })
+    const { result } = await router.waitForResult('goal')
+
+    expect(result).toEqual({ data: 42 })
+    expect(provider.requests).toHaveLength(2)
+    expect(lastMessage(provider.requests[1].messages)).toEqual({ role: 'tool', toolCallId: 'call-0-0', content: 42 })
+
+    const { tasks } = router.getTasks({ span: 'goal' })
+    expect(tasks.map(task => [task.executor, task.status])).toEqual([['double', 'succeeded']])
+    expect(router.getTaskLogs('goal').map(log => log.data).join('')).toStartWith('Doubling it\n> double {"n":21}')
+  })
+
+  test('feeds errors and unknown tools back to the model', async () => {
+    const { router, provider } = setup([
+      { toolCalls: [{ executor: 'fail', params: {} }, { executor: 'shell', params: {} }] },
+      { thought: 'Nothing works' }
+    ])
+
+    router.enqueueTask({ id: 'goal', executor: 'llm', params: { goal: 'Try', executors: ['fail'] } })
+    const { result } = await router.waitForResult('goal')
+
+    expect(result).toEqual({ data: 'Nothing works' })
+    const [failed, unknown] = provider.requests[1].messages.slice(-2) as Extract<Message, { role: 'tool' }>[]
+    expect(failed.isError).toBe(true)
+    expect(failed.content).toMatchObject({ name: 'Error', message: 'Broken tool' })
+    expect(unknown.isError).toBe(true)
+    expect(unknown.content).toBe('There is no tool shell, use one of: fail')
+  })
+
+  test('fails once out of steps', async () => {
+    const calls: ScriptedStep = { toolCalls: [{ executor: 'double', params: { n: 1 } }] }
+    const { router, provider } = setup([calls, calls, calls], 2)
+
+    router.enqueueTask({ id: 'goal', executor: 'llm', params: { goal: 'Loop', executors: ['double'] } })
+    const { result } = await router.waitForResult('goal')
+
+    expect(result).toMatchObject({ error: { name: 'LlmError', message: 'No answer after 2 steps' } })
+    expect(provider.requests).toHaveLength(2)
+  })
+
+  test('is cancelled along with its subtasks', async () => {
+    const { router, provider } = setup([
+      { toolCalls: [{ executor: 'wait', params: {} }] },
+      { answer: 'too late' }
+    ])
+
+    const running = nextEvent(router, event => event.status === 'running' && event.id !== 'goal')
+    router.enqueueTask({ id: 'goal', executor: 'llm', params: { goal: 'Wait', executors: ['wait'] } })
+    const subtask = await running
+
+    expect(router.cancelTask('goal')).toBe(true)
+    const result = await router.waitForResult('goal')
+
+    expect(result.cancelled).toBe(true)
+    expect(router.getTask(subtask.id)?.status).toBe('cancelled')
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(provider.requests).toHaveLength(1)
+  })
+
+  test('fails when its planner is lost', async () => {
+    const { router, planner } = setup([
+      { toolCalls: [{ executor: 'wait', params: {} }] },
+      { answer: 'too late' }
+    ])
+
+    const running = nextEvent(router, event => event.status === 'running' && event.id !== 'goal')
+    router.enqueueTask({ id: 'goal', executor: 'llm', params: { goal: 'Wait', executors: ['wait'] } })
+    const subtask = await running
+
+    router.unregisterAgent(planner.id)
+    const { result } = await router.waitForResult('goal')
+
+    expect(result).toMatchObject({ error: { name: 'AgentLostError', code: 'agent-lost' } })
+    expect(router.getTask(subtask.id)?.status).toBe('cancelled')
+  })
+})
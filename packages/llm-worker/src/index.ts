@@ -0,0 +1,226 @@
+import { randomUUID } from 'crypto'
+import {
+  TaskResult, SubTask, Plan, LogChunk, Channel, Agent, Executor, RunOptions
+} from '../../../types'
+import { Emitter } from '../../../emitter'
+import { serializeError } from '../../../errors'
+import { Infer, JsonSchema, anyOf, array, integer, json, object, optional, string } from '../../../schema'
+import { ExecutorWorker, WorkerOptions } from '../../worker/src/index.js'
+import { ModelProvider, Message, Tool, ToolCall } from './provider.js'
+
+export { OpenAIProvider } from './provider.js'
+export type {
+  ModelProvider, ModelRequest, ModelStep, ProviderOptions, Message, Tool, ToolCall, OpenAIProviderOptions
+} from './provider.js'
+export { FakeProvider } from './fake.js'
+export type { ScriptedStep } from './fake.js'
+
+const executorSchema = anyOf(
+  string(),
+  object({
+    type: string(),
+    description: optional(string()),
+    paramsSchema: optional(json({ description: 'JSON Schema of its params, shown to the model' })),
+  }),
+)
+
+export const llmParamsSchema = object({
+  goal: string(),
+  executors: array(executorSchema, { minItems: 1, description: 'executor types the model may call' }),
+  maxSteps: optional(integer({ description: 'requests to the model before giving up, default 10' })),
+})
+
+export type LlmParams = Infer<typeof llmParamsSchema>
+
+// Fails the plan when the model couldn't reach the goal
+export class LlmError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LlmError'
+  }
+}
+
+export type LlmOptions = {
+  provider: ModelProvider
+  maxSteps?: number // for tasks not setting their own, default 10
+}
+
+// The plan being built and its ways in and out
+type Unfolding = {
+  id: string
+  subtasks: Emitter<SubTask>
+  logs: Emitter<LogChunk>
+  results: Emitter<TaskResult>
+  signal?: AbortSignal
+  // settle the plan's result
+  resolve: (answer: unknown) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Reaches a goal by asking a model what to do step by step. The executors the
+ * model calls run as the subtasks of a plan, whose results are fed back to
+ * the model until it gives an answer. Its thoughts are streamed as output.
+ *
+ * The plan has no subtask marked `last`, its result is the answer.
+ */
+export class Llm implements Executor<LlmParams, unknown, Plan | LogChunk> {
+  readonly type = 'llm'
+  readonly paramsSchema = llmParamsSchema
+
+  constructor(private options: LlmOptions) {}
+
+  run(params: LlmParams, options: RunOptions = {}): Promise<unknown> & Channel<TaskResult, LogChunk> {
+    const logs = new Emitter<LogChunk>()
+    const results = new Emitter<TaskResult>()
+    const channel = {
+      on: (listener: (chunk: LogChunk) => void) => logs.on(listener),
+      // results of the plan's subtasks
+      emit: (result: TaskResult) => results.emit(result)
+    }
+
+    if (options.signal?.aborted) return Object.assign(Promise.reject(new Error('Plan cancelled')), channel)
+
+    let settle!: Pick<Unfolding, 'resolve' | 'reject'>
+    const result = new Promise<unknown>((resolve, reject) => settle = { resolve, reject })
+    const unfolding: Unfolding = {
+      id: randomUUID(),
+      subtasks: new Emitter<SubTask>(),
+      logs,
+      results,
+      signal: options.signal,
+      ...settle
+    }
+
+    let started = false
+    const plan: Plan = {
+      id: unfolding.id,
+      result,
+      subtasks: {
+        // The model is asked once the plan is followed, so no subtask is missed
+        on: (listener) => {
+          const unsubscribe = unfolding.subtasks.on(listener)
+          if (!started) {
+            started = true
+            this.unfold(unfolding, params)
+          }
+          return unsubscribe
+        }
+      }
+    }
+
+    return Object.assign(Promise.resolve(plan), channel)
+  }
+
+  private async unfold(plan: Unfolding, params: LlmParams): Promise<void> {
+    const { goal, executors, maxSteps = this.options.maxSteps ?? 10 } = params
+    const tools: Tool[] = executors.map(executor => typeof executor === 'string'
+      ? { name: executor }
+      : { name: executor.type, description: executor.description, paramsSchema: executor.paramsSchema as JsonSchema }
+    )
+    const messages: Message[] = [{ role: 'user', content: goal }]
+    const log = (data: string) => plan.logs.emit({ stream: 'stdout', data })
+
+    try {
+      for (let step = 0; step < maxSteps; step++) {
+        const next = this.options.provider.next({ goal, tools, messages }, { signal: plan.signal })
+        let streamed = false
+        next.on?.(thought => {
+          streamed = true
+          log(thought)
+        })
+
+        const { thought, toolCalls = [], answer } = await next
+        if (thought && !streamed) log(thought)
+        if (thought) log('\n')
+
+        if (!toolCalls.length) {
+          plan.resolve(answer ?? thought ?? null)
+          return
+        }
+
+        messages.push({ role: 'assistant', content: thought, toolCalls })
+        messages.push(...await this.callTools(plan, step, toolCalls, tools))
+      }
+      throw new LlmError(`No answer after ${maxSteps} steps`)
+    } catch (error) {
+      plan.reject(error instanceof Error ? error : new LlmError(String(error)))
+    } finally {
+      plan.logs.close()
+      plan.subtasks.close()
+    }
+  }
+
+  /**
+   * Emits a subtask per tool call, all running at once
+   * @return  a tool message per call, in order, once they all finished
+   */
+  private callTools(plan: Unfolding, step: number, calls: ToolCall[], tools: Tool[]): Promise<Message[]> {
+    return new Promise((resolve, reject) => {
+      const outcomes = new Map<string, Message>()
+      // subtask id -> the call it runs
+      const subtaskCalls = new Map<string, ToolCall>()
+
+      const settle = () => {
+        if (outcomes.size < calls.length) return
+        cleanup()
+        resolve(calls.map(call => outcomes.get(call.id)!))
+      }
+      const unsubscribe = plan.results.on(result => {
+        const call = subtaskCalls.get(result.id)
+        if (!call || outcomes.has(call.id)) return
+        outcomes.set(call.id, toolMessage(call, result))
+        settle()
+      })
+      const abort = () => {
+        cleanup()
+        reject(new Error('Plan cancelled'))
+      }
+      const cleanup = () => {
+        unsubscribe()
+        plan.signal?.removeEventListener('abort', abort)
+      }
+      plan.signal?.addEventListener('abort', abort, { once: true })
+
+      calls.forEach((call, position) => {
+        if (!tools.some(tool => tool.name === call.executor)) {
+          outcomes.set(call.id, {
+            role: 'tool',
+            toolCallId: call.id,
+            content: `There is no tool ${call.executor}, use one of: ${tools.map(tool => tool.name).join(', ')}`,
+            isError: true
+          })
+          return
+        }
+
+        const id = `${plan.id}.${step}.${position}`
+        subtaskCalls.set(id, call)
+        plan.logs.emit({ stream: 'stdout', data: `> ${call.executor} ${JSON.stringify(call.params)}\n` })
+        plan.subtasks.emit({ id, executor: call.executor, params: call.params })
+      })
+      settle()
+    })
+  }
+}
+
+// What the model is told about a finished subtask: its output, or its error
+// without the stack
+function toolMessage(call: ToolCall, result: TaskResult): Message {
+  const payload = result.result as { data?: unknown, error?: unknown } | undefined
+  const error = result.error ?? payload?.error
+
+  if (error !== undefined) {
+    const { stack, ...details } = serializeError(error)
+    return { role: 'tool', toolCallId: call.id, content: details, isError: true }
+  }
+  return { role: 'tool', toolCallId: call.id, content: payload?.data ?? null }
+}
+
+export type LlmWorkerOptions = LlmOptions & WorkerOptions
+
+// A worker pursuing goals with a model only
+export class LlmWorker extends ExecutorWorker implements Agent {
+  constructor(id: string, serverUrl: string, options: LlmWorkerOptions) {
+    super(id, serverUrl, [new Llm({ provider: options.provider, maxSteps: options.maxSteps })], options)
+  }
+}
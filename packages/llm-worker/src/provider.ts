@@ -0,0 +1,148 @@
+import { Stream } from '../../../types'
+import { JsonSchema } from '../../../schema'
+
+// An executor the model may call, as a tool named after its type
+export type Tool = {
+  name: string
+  description?: string
+  paramsSchema?: JsonSchema
+}
+
+export type ToolCall = {
+  id: string // unique within the conversation
+  executor: string
+  params: {}
+}
+
+export type Message =
+  | { role: 'user', content: string }
+  | { role: 'assistant', content?: string, toolCalls?: ToolCall[] }
+  // the outcome of a tool call: the task's output, or its error's message
+  | { role: 'tool', toolCallId: string, content: unknown, isError?: boolean }
+
+export type ModelRequest = {
+  goal: string
+  tools: Tool[]
+  messages: Message[] // starting with the goal
+}
+
+/**
+ * What the model does next: call tools, whose results are sent back with the
+ * following request, or, calling none, give its answer
+ */
+export type ModelStep = {
+  thought?: string
+  toolCalls?: ToolCall[]
+  answer?: unknown // the thought is taken as the answer if omitted
+}
+
+export type ProviderOptions = {
+  signal?: AbortSignal
+}
+
+/**
+ * A language model, or anything deciding the steps towards a goal. Providers
+ * able to stream the model's thoughts pass them to the listeners registered
+ * with `on` as they come.
+ */
+export interface ModelProvider {
+  next(request: ModelRequest, options?: ProviderOptions): Promise<ModelStep> & Partial<Stream<string>>
+}
+
+export type OpenAIProviderOptions = {
+  model: string
+  apiKey?: string
+  baseUrl?: string // default https://api.openai.com/v1, any compatible API works
+  system?: string // replaces the default system prompt
+}
+
+const defaultSystemPrompt = [
+  'You reach the goal of the user by calling tools. Every tool runs a task on',
+  'an executor of the same name, tools called together run in parallel.',
+  'Once the goal is reached, reply without calling any tool, with the answer.'
+].join(' ')
+
+// Chat completions with function calling, of OpenAI or a compatible server
+export class OpenAIProvider implements ModelProvider {
+  constructor(private options: OpenAIProviderOptions) {}
+
+  async next(request: ModelRequest, options: ProviderOptions = {}): Promise<ModelStep> {
+    const { model, apiKey, baseUrl = 'https://api.openai.com/v1', system = defaultSystemPrompt } = this.options
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(apiKey && { authorization: `Bearer ${apiKey}` })
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'system', content: system }, ...request.messages.map(toOpenAIMessage)],
+        ...(request.tools.length && { tools: request.tools.map(toOpenAITool) })
+      }),
+      signal: options.signal
+    })
+
+    if (!response.ok) {
+      throw new Error(`Model request failed with status ${response.status}: ${await response.text()}`)
+    }
+
+    const { choices } = await response.json() as OpenAICompletion
+    const message = choices[0]?.message
+    if (!message) throw new Error('Model replied without a message')
+
+    return {
+      thought: message.content || undefined,
+      toolCalls: message.tool_calls?.map(call => ({
+        id: call.id,
+        executor: call.function.name,
+        params: JSON.parse(call.function.arguments || '{}')
+      }))
+    }
+  }
+}
+
+type OpenAICompletion = {
+  choices: {
+    message: {
+      content: string | null
+      tool_calls?: { id: string, function: { name: string, arguments: string } }[]
+    }
+  }[]
+}
+
+function toOpenAIMessage(message: Message) {
+  switch (message.role) {
+    case 'user':
+      return message
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content ?? null,
+        ...(message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.executor, arguments: JSON.stringify(call.params) }
+          }))
+        })
+      }
+    case 'tool':
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId,
+        content: JSON.stringify(message.isError ? { error: message.content } : message.content ?? null)
+      }
+  }
+}
+
+function toOpenAITool(tool: Tool) {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      ...(tool.description && { description: tool.description }),
+      parameters: tool.paramsSchema || { type: 'object' }
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import { Agent, AgentSelector, Heartbeat } from '../../../types'
+import { JsonSchema } from '../../../schema'
+import { matchesSelector, preferenceScore } from './selector.js'
+
+export type BalancingStrategy = 'round-robin' | 'least-in-flight' | 'random'
+
+export type AgentStatus = {
+  id: string
+  type: string
+  inFlight: number
+  maxConcurrency?: number
+  labels?: Record<string, string>
+  capabilities?: string[]
+  healthy: boolean
+  lastSeen: Date
+  heartbeat?: Heartbeat
+}
+
+type Liveness = {
+  healthy: boolean
+  lastSeen: Date
+  heartbeat?: Heartbeat
+}
+
+export class AgentPool {
+  private agents: Agent[] = []
+  private inFlight = new Map<string, number>()
+  private liveness = new Map<string, Liveness>()
+  private cursor = 0
+
+  constructor(
+    readonly type: string,
+    private strategy: BalancingStrategy = 'round-robin',
+  ) {}
+
+  add(agent: Agent): void {
+    // A worker reconnecting with the same id replaces its stale entry
+    this.remove(agent.id)
+    this.agents.push(agent)
+    this.inFlight.set(agent.id, 0)
+    this.liveness.set(agent.id, { healthy: true, lastSeen: new Date() })
+  }
+
+  remove(agentId: string): boolean {
+    const index = this.agents.findIndex(agent => agent.id === agentId)
+    if (index === -1) return false
+
+    this.agents.splice(index, 1)
+    this.inFlight.delete(agentId)
+    this.liveness.delete(agentId)
+    if (this.cursor > index) this.cursor--
+    return true
+  }
+
+  get(agentId: string): Agent | undefined {
+    return this.agents.find(agent => agent.id === agentId)
+  }
+
+  has(agentId: string): boolean {
+    return this.inFlight.has(agentId)
+  }
+
+  // Schema the agents of this type check params against, the latest to
+  // register wins as it is likely the most up to date
+  getParamsSchema(): JsonSchema | undefined {
+    for (let i = this.agents.length - 1; i >= 0; i--) {
+      const { paramsSchema } = this.agents[i].meta
+      if (paramsSchema) return paramsSchema
+    }
+    return undefined
+  }
+
+  get size(): number {
+    return this.agents.length
+  }
+
+  // Whether an agent matching the requirements is free to take a task
+  hasCapacity(requires?: AgentSelector): boolean {
+    return this.agents.some(agent => this.isAvailable(agent) && matchesSelector(agent.meta, requires))
+  }
+
+  // Whether any agent, busy, unhealthy or not, matches the requirements
+  canServe(requires?: AgentSelector): boolean {
+    return this.agents.some(agent => matchesSelector(agent.meta, requires))
+  }
+
+  private isAvailable(agent: Agent): boolean {
+    if (!this.isHealthy(agent.id)) return false
+
+    const { maxConcurrency } = agent.meta
+    return maxConcurrency === undefined || this.getInFlight(agent.id) < maxConcurrency
+  }
+
+  isHealthy(agentId: string): boolean {
+    return !!this.liveness.get(agentId)?.healthy
+  }
+
+  // Marks the agent as seen just now, and healthy again if it wasn't
+  touch(agentId: string, heartbeat?: Heartbeat): void {
+    const liveness = this.liveness.get(agentId)
+    if (!liveness) return
+
+    liveness.healthy = true
+    liveness.lastSeen = new Date()
+    if (heartbeat) liveness.heartbeat = heartbeat
+  }
+
+  markUnhealthy(agentId: string): void {
+    const liveness = this.liveness.get(agentId)
+    if (liveness) liveness.healthy = false
+  }
+
+  getLastSeen(agentId: string): Date | undefined {
+    return this.liveness.get(agentId)?.lastSeen
+  }
+
+  /**
+   * Picks among agents with spare capacity matching the requirements only,
+   * the ones matching the most preferences first
+   * @return  undefined if all of them are saturated
+   */
+  pick(requires?: AgentSelector, prefers?: AgentSelector): Agent | undefined {
+    let available = this.agents.filter(agent => this.isAvailable(agent) && matchesSelector(agent.meta, requires))
+    if (!available.length) return undefined
+
+    if (prefers) {
+      const best = Math.max(...available.map(agent => preferenceScore(agent.meta, prefers)))
+      available = available.filter(agent => preferenceScore(agent.meta, prefers) === best)
+    }
+
+    switch (this.strategy) {
+      case 'least-in-flight':
+        return available.reduce((least, agent) =>
+          this.getInFlight(agent.id) < this.getInFlight(least.id) ? agent : least
+        )
+      case 'random':
+        return available[Math.floor(Math.random() * available.length)]
+      case 'round-robin':
+      default: {
+        for (let i = 0; i < this.agents.length; i++) {
+          const agent = this.agents[this.cursor % this.agents.length]
+          this.cursor = (this.cursor + 1) % this.agents.length
+          if (available.includes(agent)) return agent
+        }
+        return undefined
+      }
+    }
+  }
+
+  acquire(agentId: string): void {
+    if (!this.has(agentId)) return
+    this.inFlight.set(agentId, this.getInFlight(agentId) + 1)
+  }
+
+  release(agentId: string): void {
+    if (!this.has(agentId)) return
+    this.inFlight.set(agentId, Math.max(0, this.getInFlight(agentId) - 1))
+  }
+
+  getInFlight(agentId: string): number {
+    return this.inFlight.get(agentId) || 0
+  }
+
+  getStatuses(): AgentStatus[] {
+    return this.agents.map(agent => {
+      const liveness = this.liveness.get(agent.id)!
+      return {
+        id: agent.id,
+        type: this.type,
+        inFlight: this.getInFlight(agent.id),
+        maxConcurrency: agent.meta.maxConcurrency,
+        labels: agent.meta.labels,
+        capabilities: agent.meta.capabilities,
+        healthy: liveness.healthy,
+        lastSeen: liveness.lastSeen,
+        heartbeat: liveness.heartbeat
+      }
+    })
+  }
+}
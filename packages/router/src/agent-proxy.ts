@@ -1,14 +1,23 @@
 import { Socket } from 'socket.io'
-import { Task, TaskResult, Agent } from '../../types'
+import { Task, TaskResult, TaskLog, TaskStarted, Agent, AgentMeta, Unsubscribe } from '../../../types'
+import { Emitter } from '../../../emitter'
 
+/**
+ * The router's side of a worker's registration. A worker serving several
+ * executor types registers each over the same socket, so a proxy only
+ * relays messages about the tasks it sent.
+ */
 export class AgentProxy implements Agent {
-  readonly meta: { type: string }
+  readonly meta: AgentMeta
   readonly id: string
   
-  private socket: Socket
-  private resultEmitter?: (result: Task | TaskResult) => void
+  readonly socket: Socket
+  private events = new Emitter<Task | TaskResult | TaskLog | TaskStarted>()
+  // attempt of the tasks sent through this proxy by id, kept while they may
+  // report back or, once they turned into plans, emit subtasks
+  private dispatched = new Map<string, number | undefined>()
 
-  constructor(id: string, meta: { type: string }, socket: Socket) {
+  constructor(id: string, meta: AgentMeta, socket: Socket) {
     this.id = id
     this.meta = meta
     this.socket = socket
@@ -19,37 +28,60 @@ export class AgentProxy implements Agent {
   private setupSocketListeners(): void {
     // Listen for results from the worker
     this.socket.on('task-result', (result: TaskResult) => {
-      console.log(`Received result from worker ${this.id}:`, result)
-      if (this.resultEmitter) {
-        this.resultEmitter(result)
+      if (!this.dispatched.has(result.id)) return
+      // A late result of an earlier try leaves the current one expected
+      const attempt = this.dispatched.get(result.id)
+      if (result.attempt !== undefined && result.attempt !== attempt) {
+        console.log(`Ignoring result of attempt ${result.attempt} of task ${result.id} from worker ${this.id}`)
+        return
       }
+      this.dispatched.delete(result.id)
+      console.log(`Received result from worker ${this.id}:`, result)
+      this.events.emit(result)
+    })
+    
+    // The worker began executing a task it was sent
+    this.socket.on('task-started', (started: TaskStarted) => {
+      if (!this.dispatched.has(started.id)) return
+      this.events.emit({ ...started, start: new Date(started.start) })
+    })
+
+    // Output streamed by the worker while a task runs, too chatty to log
+    this.socket.on('task-log', (log: TaskLog) => {
+      if (!this.dispatched.has(log.id)) return
+      this.events.emit({ ...log, time: new Date(log.time) })
     })
     
     // Listen for tasks from the worker (if worker needs to emit tasks)
     this.socket.on('task', (task: Task) => {
+      if (!task.span || !this.dispatched.has(task.span)) return
       console.log(`Received task from worker ${this.id}:`, task)
-      if (this.resultEmitter) {
-        this.resultEmitter(task)
-      }
+      this.events.emit(task)
     })
   }
 
-  on(listener: (result: Task | TaskResult) => void): void {
-    this.resultEmitter = listener
+  on(listener: (result: Task | TaskResult | TaskLog | TaskStarted) => void): Unsubscribe {
+    return this.events.on(listener)
   }
 
   emit(taskOrResult: Task | TaskResult): void {
     if (this.isTask(taskOrResult)) {
       console.log(`Sending task to worker ${this.id}:`, taskOrResult)
       // Send task to worker
+      this.dispatched.set(taskOrResult.id, taskOrResult.attempt)
       this.socket.emit('task', taskOrResult)
     } else {
       console.log(`Sending result to worker ${this.id}:`, taskOrResult)
-      // Send result to worker (if needed)
+      // Results of the subtasks of a plan the worker is unfolding
       this.socket.emit('task-result', taskOrResult)
     }
   }
 
+  cancel(taskId: string): void {
+    console.log(`Cancelling task ${taskId} on worker ${this.id}`)
+    this.socket.emit('cancel-task', taskId)
+  }
+
   private isTask(item: Task | TaskResult): item is Task {
     return 'executor' in item && 'params' in item
   }
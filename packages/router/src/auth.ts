@@ -0,0 +1,106 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { Request, Response, NextFunction } from 'express'
+import { Socket } from 'socket.io'
+
+export type Role = 'worker' | 'client'
+
+export type Credential = {
+  token: string
+  roles: Role[]
+  // executor types a worker holding the token may register as, any if omitted
+  executors?: string[]
+}
+
+/**
+ * Checks the tokens workers and API clients present against the configured
+ * credentials. With none configured everyone is let through, as before.
+ */
+export class Authenticator {
+  constructor(private credentials: Credential[] = []) {}
+
+  get enabled(): boolean {
+    return this.credentials.length > 0
+  }
+
+  // The credential the token belongs to, if it grants the role
+  authenticate(token: string | undefined, role: Role): Credential | undefined {
+    if (!token) return undefined
+
+    const credential = this.credentials.find(credential => safeEqual(credential.token, token))
+    return credential?.roles.includes(role) ? credential : undefined
+  }
+
+  canServe(credential: Credential | undefined, executorType: string): boolean {
+    if (!this.enabled) return true
+    if (!credential) return false
+    return !credential.executors || credential.executors.includes(executorType)
+  }
+
+  /**
+   * Express middleware rejecting requests without a client token
+   * @param acceptsQueryToken  requests that may pass it as `?access_token=`
+   *        instead, e.g. those of EventSource, which can't set headers
+   */
+  requireClient(acceptsQueryToken: (req: Request) => boolean = () => false) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!this.enabled) return next()
+
+      const header = req.headers.authorization?.match(/^Bearer (.+)$/i)?.[1]
+      const query = acceptsQueryToken(req) && typeof req.query.access_token === 'string'
+        ? req.query.access_token
+        : undefined
+      const token = header || query
+
+      if (!token) {
+        return res.status(401).json({ error: 'Missing bearer token' })
+      }
+      if (!this.authenticate(token, 'client')) {
+        return res.status(403).json({ error: 'Token not allowed to use the API' })
+      }
+      next()
+    }
+  }
+
+  /**
+   * Socket.IO middleware checking the token sent as `auth: { token }` in the
+   * handshake. The credential is kept in `socket.data.credential`.
+   */
+  requireSocket(role: Role) {
+    return (socket: Socket, next: (error?: Error) => void) => {
+      if (!this.enabled) return next()
+
+      const credential = this.authenticate(socket.handshake.auth?.token, role)
+      if (!credential) {
+        console.warn(`Rejecting ${role} connection ${socket.id}: invalid or missing token`)
+        return next(new Error('Unauthorized'))
+      }
+      socket.data.credential = credential
+      next()
+    }
+  }
+}
+
+// Compares digests so the time taken doesn't leak the token's content or length
+function safeEqual(expected: string, actual: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(expected), digest(actual))
+}
+
+/**
+ * Reads credentials from the environment: `AUTH_TOKENS`, a JSON array of
+ * credentials, and `AUTH_SECRET`, a shared secret granting every role
+ */
+export function credentialsFromEnv(env: Record<string, string | undefined>): Credential[] {
+  const credentials: Credential[] = env.AUTH_TOKENS ? JSON.parse(env.AUTH_TOKENS) : []
+
+  for (const credential of credentials) {
+    if (typeof credential.token !== 'string' || !credential.token || !Array.isArray(credential.roles)) {
+      throw new Error('AUTH_TOKENS entries need a `token` and `roles`')
+    }
+  }
+
+  if (env.AUTH_SECRET) {
+    credentials.push({ token: env.AUTH_SECRET, roles: ['worker', 'client'] })
+  }
+  return credentials
+}
@@ -0,0 +1,54 @@
+import { AgentSelector } from '../../../types'
+import { FieldError } from '../../../schema'
+import { formatSelector } from './selector.js'
+
+export class AgentLostError extends Error {
+  readonly code = 'agent-lost'
+
+  constructor(readonly taskId: string, readonly agentId: string) {
+    super(`Agent ${agentId} was lost while running task ${taskId}`)
+    this.name = 'AgentLostError'
+  }
+}
+
+export class ParamsValidationError extends Error {
+  readonly code = 'invalid-params'
+
+  constructor(readonly taskId: string, readonly errors: FieldError[]) {
+    super(`Invalid params for task ${taskId}: ${errors.map(error => `${error.field} ${error.message}`).join(', ')}`)
+    this.name = 'ParamsValidationError'
+  }
+}
+
+// A plan emitted a subtask with the id of a task the router already knows
+export class DuplicateTaskError extends Error {
+  readonly code = 'duplicate-task'
+
+  constructor(readonly taskId: string, readonly planId: string) {
+    super(`Plan ${planId} emitted subtask ${taskId}, whose id is already taken`)
+    this.name = 'DuplicateTaskError'
+  }
+}
+
+// The task depends on one no plan or client ever submitted
+export class UnknownDependencyError extends Error {
+  readonly code = 'unknown-dependency'
+
+  constructor(readonly taskId: string, readonly dependency: string) {
+    super(`Dependency ${dependency} of task ${taskId} was never submitted`)
+    this.name = 'UnknownDependencyError'
+  }
+}
+
+// No agent registered can run the task, whether busy or not
+export class UnschedulableError extends Error {
+  readonly code = 'unschedulable'
+
+  constructor(readonly taskId: string, readonly executor: string, readonly requires?: AgentSelector) {
+    super(requires
+      ? `No ${executor} agent matches what task ${taskId} requires: ${formatSelector(requires)}`
+      : `No agent found for executor: ${executor}`
+    )
+    this.name = 'UnschedulableError'
+  }
+}
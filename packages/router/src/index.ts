@@ -3,27 +3,62 @@ import { createServer } from 'http'
 import { Server as SocketIOServer } from 'socket.io'
 import { Router } from './router.js'
 import { Supervisor } from './supervisor.js'
-import { Task } from '../../types'
+import { BalancingStrategy } from './agent-pool.js'
+import { FileTaskStore } from './store.js'
+import { Authenticator, credentialsFromEnv } from './auth.js'
+import { AgentSelector, RetryPolicy, Task, SubTask, TaskQuery, TaskStatus } from '../../../types'
 
 const app = express()
 const server = createServer(app)
 const io = new SocketIOServer(server, {
   cors: {
-    origin: "*",
-    methods: ["GET", "POST"]
+    origin: process.env.CORS_ORIGIN ? process.env.CORS_ORIGIN.split(',') : "*",
+    methods: ["GET", "POST", "DELETE"]
   }
 })
 
+const auth = new Authenticator(credentialsFromEnv(process.env))
+if (!auth.enabled) {
+  console.warn('No AUTH_TOKENS or AUTH_SECRET set, workers and API clients are not authenticated')
+}
+
 app.use(express.json())
 
-const router = new Router()
-const supervisor = new Supervisor(router, io)
+const router = new Router(undefined, {
+  balancing: process.env.BALANCING_STRATEGY as BalancingStrategy | undefined,
+  maxReassignments: process.env.MAX_REASSIGNMENTS
+    ? parseInt(process.env.MAX_REASSIGNMENTS, 10)
+    : undefined,
+  store: process.env.TASK_LOG ? new FileTaskStore(process.env.TASK_LOG) : undefined,
+  logRetentionMs: process.env.LOG_RETENTION_MS
+    ? parseInt(process.env.LOG_RETENTION_MS, 10)
+    : undefined,
+  agentGraceMs: process.env.AGENT_GRACE_MS
+    ? parseInt(process.env.AGENT_GRACE_MS, 10)
+    : undefined,
+  scheduling: {
+    weights: process.env.SPAN_WEIGHTS ? JSON.parse(process.env.SPAN_WEIGHTS) : undefined,
+    agingMs: process.env.PRIORITY_AGING_MS
+      ? parseInt(process.env.PRIORITY_AGING_MS, 10)
+      : undefined
+  }
+})
+const supervisor = new Supervisor(router, io, {
+  heartbeatTimeoutMs: process.env.HEARTBEAT_TIMEOUT
+    ? parseInt(process.env.HEARTBEAT_TIMEOUT, 10)
+    : undefined,
+  auth
+})
 
 // API endpoints
 app.get('/health', (req, res) => {
   res.json({ status: 'ok' })
 })
 
+// Everything but the health check needs a client token, SSE clients following
+// logs may pass it in the query
+app.use(auth.requireClient(req => req.method === 'GET' && /^\/tasks\/[^/]+\/logs$/.test(req.path)))
+
 app.get('/agents', (req, res) => {
   res.json({
     registeredAgents: router.getRegisteredAgents(),
@@ -31,12 +66,83 @@ app.get('/agents', (req, res) => {
   })
 })
 
+// Checks the scheduling options of a submitted task, which the queue relies on
+// being well formed, returning an error message for the first invalid one
+function checkTaskOptions(task: Record<string, unknown>): string | undefined {
+  if (task.priority !== undefined && !Number.isFinite(task.priority)) {
+    return `Invalid priority: ${JSON.stringify(task.priority)}`
+  }
+  if (task.timeoutMs !== undefined && !isPositiveInteger(task.timeoutMs)) {
+    return `Invalid timeoutMs: ${JSON.stringify(task.timeoutMs)}`
+  }
+  if (task.retry !== undefined && !isRetryPolicy(task.retry)) {
+    return 'Invalid retry: expected { attempts: number, backoff?: { initialMs?, factor?, maxMs? }, retryOn?: ("error" | "timeout")[] }'
+  }
+  for (const name of ['requires', 'prefers'] as const) {
+    if (task[name] !== undefined && task[name] !== null && !isSelector(task[name])) {
+      return `Invalid ${name}: expected { labels?: Record<string, string | string[]>, capabilities?: string[] }`
+    }
+  }
+  return undefined
+}
+
+const isPositiveInteger = (value: unknown): value is number =>
+  Number.isSafeInteger(value) && (value as number) > 0
+
+function isRetryPolicy(value: unknown): value is RetryPolicy {
+  if (!isRecord(value) || !isPositiveInteger(value.attempts)) return false
+  const { backoff = {}, retryOn = [] } = value
+  if (!isRecord(backoff) || !Array.isArray(retryOn)) return false
+
+  const { initialMs = 1, factor = 1, maxMs = 1 } = backoff
+  return isPositiveInteger(initialMs) && isPositiveInteger(maxMs)
+    && typeof factor === 'number' && Number.isFinite(factor) && factor > 0
+    && retryOn.every(reason => reason === 'error' || reason === 'timeout')
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string')
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function isSelector(value: unknown): value is AgentSelector {
+  if (!isRecord(value)) return false
+  // null parts are taken as missing
+  const { labels = null, capabilities = null } = value
+  const validLabels = labels === null
+    || (isRecord(labels) && Object.values(labels).every(label => typeof label === 'string' || isStringArray(label)))
+  return validLabels && (capabilities === null || isStringArray(capabilities))
+}
+
 app.post('/tasks', (req, res) => {
   const task: Task = req.body
   
   if (!task.id || !task.executor || !task.params) {
     return res.status(400).json({ error: 'Invalid task format' })
   }
+
+  const invalid = checkTaskOptions(req.body)
+  if (invalid) {
+    return res.status(400).json({ error: invalid })
+  }
+
+  // Ids identify results and logs, so a taken one is never reused
+  if (router.getTask(task.id)) {
+    return res.status(409).json({ error: `Task ${task.id} already exists` })
+  }
+
+  // Dependencies are submitted first, an unknown one may never be
+  const { dependencies } = req.body as SubTask
+  const unknown = Array.isArray(dependencies) && dependencies.find(id => !router.getTask(id))
+  if (unknown) {
+    return res.status(400).json({ error: `Unknown dependency: ${unknown}` })
+  }
+
+  const errors = router.validateParams(task)
+  if (errors.length) {
+    return res.status(400).json({ error: 'Invalid task params', errors })
+  }
   
   console.log('Received task via API:', task)
   router.enqueueTask(task)
@@ -44,15 +150,169 @@ app.post('/tasks', (req, res) => {
   res.json({ success: true, taskId: task.id })
 })
 
+const TASK_STATUSES: TaskStatus[] = [
+  'queued', 'blocked-on-dependencies', 'dispatched', 'running', 'succeeded', 'failed', 'cancelled'
+]
+
+// Parses `?status=queued,running&executor=&span=&since=&until=&offset=&limit=`,
+// returning an error message for the first invalid parameter
+function parseTaskQuery(params: Record<string, unknown>): TaskQuery | string {
+  const query: TaskQuery = {}
+  const text = (name: string) => typeof params[name] === 'string' ? params[name] as string : undefined
+
+  const status = text('status')
+  if (status) {
+    query.status = status.split(',') as TaskStatus[]
+    const unknown = query.status.find(entry => !TASK_STATUSES.includes(entry))
+    if (unknown) return `Unknown status: ${unknown}`
+  }
+
+  query.executor = text('executor')
+  query.span = text('span')
+
+  for (const name of ['since', 'until'] as const) {
+    const value = text(name)
+    if (!value) continue
+    // epoch milliseconds or any date Date parses
+    const date = new Date(/^\d+$/.test(value) ? Number(value) : value)
+    if (isNaN(date.getTime())) return `Invalid date for ${name}: ${value}`
+    query[name] = date
+  }
+
+  for (const name of ['offset', 'limit'] as const) {
+    const value = text(name)
+    if (!value) continue
+    const number = Number(value)
+    if (!Number.isInteger(number) || number < 0) return `Invalid ${name}: ${value}`
+    query[name] = name === 'limit' ? Math.min(number, 1000) : number
+  }
+
+  return query
+}
+
+app.get('/tasks', (req, res) => {
+  const query = parseTaskQuery(req.query)
+  if (typeof query === 'string') {
+    return res.status(400).json({ error: query })
+  }
+
+  res.json(router.getTasks(query))
+})
+
 app.get('/tasks/:id', (req, res) => {
   const taskId = req.params.id
-  const result = router.getTaskResult(taskId)
+  const task = router.getTask(taskId)
   
-  if (!result) {
+  if (!task) {
     return res.status(404).json({ error: 'Task not found' })
   }
   
-  res.json(result)
+  res.json({ ...task, attempts: router.getTaskAttempts(taskId) })
+})
+
+// Follow a task's output as Server-Sent Events, `end` carries its result
+app.get('/tasks/:id/logs', (req, res) => {
+  // Unknown tasks would never end the stream
+  if (!router.getTask(req.params.id)) {
+    return res.status(404).json({ error: 'Task not found' })
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  })
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  const unfollow = router.followLogs(req.params.id, {
+    onLog: (log) => send('log', log),
+    onEnd: (result) => {
+      send('end', result)
+      res.end()
+    }
+  })
+
+  req.on('close', unfollow)
+})
+
+app.delete('/tasks/:id', (req, res) => {
+  const taskId = req.params.id
+
+  if (!router.cancelTask(taskId)) {
+    return res.status(404).json({ error: 'Task not found or already finished' })
+  }
+
+  res.json({ success: true, taskId })
+})
+
+// Socket.IO clients follow a task's output by emitting `follow` with its id
+// on the /logs namespace, then receive `task-log` and `task-log-end` events,
+// or `task-not-found` if the router doesn't know the task
+io.of('/logs').use(auth.requireSocket('client'))
+io.of('/logs').on('connection', (socket) => {
+  const unfollows = new Map<string, () => void>()
+
+  socket.on('follow', (taskId: string) => {
+    if (unfollows.has(taskId)) return
+    if (!router.getTask(taskId)) {
+      socket.emit('task-not-found', taskId)
+      return
+    }
+
+    let ended = false
+    const unfollow = router.followLogs(taskId, {
+      onLog: (log) => socket.emit('task-log', log),
+      onEnd: (result) => {
+        ended = true
+        unfollows.delete(taskId)
+        socket.emit('task-log-end', result)
+      }
+    })
+    if (!ended) unfollows.set(taskId, unfollow)
+  })
+
+  socket.on('unfollow', (taskId: string) => {
+    unfollows.get(taskId)?.()
+    unfollows.delete(taskId)
+  })
+
+  socket.on('disconnect', () => {
+    unfollows.forEach(unfollow => unfollow())
+  })
+})
+
+// Clients waiting on results emit `watch` with a task id on the /results
+// namespace and receive a `task-result` event once it finishes, or
+// `task-not-found`
+io.of('/results').use(auth.requireSocket('client'))
+io.of('/results').on('connection', (socket) => {
+  const unwatches = new Map<string, () => void>()
+
+  socket.on('watch', (taskId: string) => {
+    if (unwatches.has(taskId)) return
+    if (!router.getTask(taskId)) {
+      socket.emit('task-not-found', taskId)
+      return
+    }
+
+    let ended = false
+    const unwatch = router.followLogs(taskId, {
+      onLog: () => {},
+      onEnd: (result) => {
+        ended = true
+        unwatches.delete(taskId)
+        socket.emit('task-result', result)
+      }
+    })
+    if (!ended) unwatches.set(taskId, unwatch)
+  })
+
+  socket.on('disconnect', () => {
+    unwatches.forEach(unwatch => unwatch())
+  })
 })
 
 app.get('/queue/status', (req, res) => {
@@ -62,9 +322,13 @@ app.get('/queue/status', (req, res) => {
   })
 })
 
-// Set up result logging
-router.onResult((result) => {
-  console.log('Task completed:', result.id, result.result)
+// Set up lifecycle logging
+router.onTaskEvent((event) => {
+  if (event.result) {
+    console.log(`Task ${event.id} ${event.status}:`, event.result.result)
+  } else {
+    console.log(`Task ${event.id} is ${event.status}`)
+  }
 })
 
 const PORT = process.env.PORT || 3000
@@ -75,7 +339,10 @@ server.listen(PORT, () => {
   console.log('  GET  /health - Health check')
   console.log('  GET  /agents - List registered agents')
   console.log('  POST /tasks - Submit a new task')
-  console.log('  GET  /tasks/:id - Get task result')
+  console.log('  GET  /tasks - List tasks, by status, executor, span and time accepted')
+  console.log('  GET  /tasks/:id - Get task status and result')
+  console.log('  GET  /tasks/:id/logs - Follow task output (Server-Sent Events)')
+  console.log('  DELETE /tasks/:id - Cancel a task')
   console.log('  GET  /queue/status - Get queue status')
 })
 
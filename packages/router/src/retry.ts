@@ -0,0 +1,22 @@
+import { RetryPolicy } from '../../../types'
+
+export type RetryReason = 'error' | 'timeout'
+
+// Longest delay setTimeout takes, it fires right away past it
+const MAX_DELAY_MS = 2 ** 31 - 1
+
+export function shouldRetry(
+  policy: RetryPolicy | undefined,
+  attempt: number,
+  reason: RetryReason,
+): policy is RetryPolicy {
+  // Not a number of attempts, e.g. missing, is not retried either
+  if (!policy || !(attempt < policy.attempts)) return false
+  return (policy.retryOn || ['error', 'timeout']).includes(reason)
+}
+
+// Exponential delay before retrying after the given (1-based) attempt
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const { initialMs = 1000, factor = 2, maxMs = Infinity } = policy.backoff || {}
+  return Math.min(maxMs, MAX_DELAY_MS, initialMs * Math.pow(factor, attempt - 1))
+}
@@ -0,0 +1,307 @@
+import { describe, test, expect, afterEach } from 'bun:test'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Plan, SubTask, Task } from '../../../types'
+import { Emitter } from '../../../emitter'
+import { ref } from '../../../template'
+import { object, integer } from '../../../schema'
+import { Router, RouterOptions } from './router.js'
+import { FileTaskStore } from './store.js'
+import { backoffDelay, shouldRetry } from './retry.js'
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Runs a few executors in process: `double` doubles `n`, `wait` runs until
+// cancelled, and `plan` emits its `subtasks`
+function setup(options?: RouterOptions) {
+  const router = new Router(undefined, options)
+
+  router.registerExecutor({
+    type: 'double',
+    paramsSchema: object({ n: integer() }),
+    run: async ({ n }: { n: number }) => n * 2
+  })
+  router.registerExecutor({
+    type: 'wait',
+    run: (_params: {}, { signal } = {}) => new Promise((_resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(new Error('Stopped')))
+    })
+  })
+  router.registerExecutor({
+    type: 'plan',
+    run: async ({ subtasks }: { subtasks: SubTask[] }): Promise<Plan> => {
+      const emitter = new Emitter<SubTask>()
+      setTimeout(() => subtasks.forEach(subtask => emitter.emit(subtask)))
+      return { id: 'plan', subtasks: emitter }
+    }
+  })
+
+  return router
+}
+
+const planOf = (id: string, subtasks: SubTask[], options: Partial<Task> = {}): Task =>
+  ({ id, executor: 'plan', params: { subtasks }, ...options })
+
+describe('Router', () => {
+  test('runs tasks and records their results', async () => {
+    const router = setup()
+
+    router.enqueueTask({ id: 'a', executor: 'double', params: { n: 21 } })
+    const { result } = await router.waitForResult('a')
+
+    expect(result).toEqual({ data: 42 })
+    expect(router.getTask('a')?.history.map(transition => transition.status))
+      .toEqual(['queued', 'dispatched', 'running', 'succeeded'])
+  })
+
+  test('checks params against the executor schema', () => {
+    const router = setup()
+
+    expect(router.validateParams({ id: 'a', executor: 'double', params: { n: 1 } })).toEqual([])
+    expect(router.validateParams({ id: 'a', executor: 'double', params: { n: 'one' } })).not.toEqual([])
+  })
+
+  test('fails tasks no agent can run', async () => {
+    const router = setup()
+
+    router.enqueueTask({ id: 'a', executor: 'nope', params: {} })
+    const { result } = await router.waitForResult('a')
+
+    expect(result).toMatchObject({ error: { name: 'UnschedulableError', code: 'unschedulable' } })
+  })
+
+  test('keeps dispatching past tasks with null selectors', async () => {
+    const router = setup()
+
+    router.enqueueTask({ id: 'a', executor: 'double', params: { n: 1 }, requires: null as any })
+    router.enqueueTask({ id: 'b', executor: 'double', params: { n: 2 }, prefers: { labels: null } as any })
+
+    expect((await router.waitForResult('a')).result).toEqual({ data: 2 })
+    expect((await router.waitForResult('b')).result).toEqual({ data: 4 })
+  })
+
+  test('settles plans with their last subtask, resolving params from dependencies', async () => {
+    const router = setup()
+
+    router.enqueueTask(planOf('p', [
+      { id: 'p-first', executor: 'double', params: { n: 1 } },
+      { id: 'p-second', executor: 'double', dependencies: ['p-first'], params: (n: number) => ({ n }) },
+      { id: 'p-third', executor: 'double', dependencies: ['p-second'], params: { n: ref(0) }, last: true }
+    ]))
+    const { result } = await router.waitForResult('p')
+
+    expect(result).toEqual({ data: 8 })
+    expect(router.getTasks({ span: 'p' }).tasks.map(task => task.status)).toEqual(['succeeded', 'succeeded', 'succeeded'])
+  })
+
+  test('fails subtasks whose resolved params are invalid', async () => {
+    const router = setup()
+
+    router.enqueueTask(planOf('p', [
+      { id: 'p-bad', executor: 'double', params: { n: 'one' } as any, last: true }
+    ]))
+    const { result } = await router.waitForResult('p')
+
+    expect(result).toMatchObject({ error: { name: 'ParamsValidationError', code: 'invalid-params' } })
+  })
+
+  test('fails subtasks depending on ids never submitted', async () => {
+    const router = setup()
+
+    router.enqueueTask(planOf('p', [
+      { id: 'p-last', executor: 'double', dependencies: ['p-missing'], params: { n: ref(0) }, last: true }
+    ]))
+    const { result } = await router.waitForResult('p')
+
+    expect(result).toMatchObject({ error: { code: 'unknown-dependency', dependency: 'p-missing' } })
+  })
+
+  test('fails plans emitting a subtask whose id is taken', async () => {
+    const router = setup()
+    const subtasks: SubTask[] = [
+      { id: 'fetch', executor: 'double', params: { n: 1 } },
+      { id: 'use', executor: 'double', dependencies: ['fetch'], params: { n: ref(0) }, last: true }
+    ]
+
+    router.enqueueTask(planOf('p1', subtasks))
+    expect((await router.waitForResult('p1')).result).toEqual({ data: 4 })
+
+    router.enqueueTask(planOf('p2', subtasks))
+    const { result } = await router.waitForResult('p2')
+
+    expect(result).toMatchObject({ error: { name: 'DuplicateTaskError', code: 'duplicate-task', taskId: 'fetch' } })
+    expect(router.getTaskResult('use')?.result).toEqual({ data: 4 })
+  })
+
+  test('cancels plans along with their unfinished subtasks', async () => {
+    const router = setup()
+
+    router.enqueueTask(planOf('p', [{ id: 'p-wait', executor: 'wait', params: {}, last: true }]))
+    await sleep(20)
+
+    expect(router.cancelTask('p')).toBe(true)
+    expect((await router.waitForResult('p')).cancelled).toBe(true)
+    expect(router.getTask('p-wait')?.status).toBe('cancelled')
+    expect(router.cancelTask('p')).toBe(false)
+  })
+
+  test('retries failed tries up to the policy attempts', async () => {
+    const router = setup()
+    let tries = 0
+    router.registerExecutor({
+      type: 'flaky',
+      run: async () => {
+        if (++tries < 3) throw new Error('Not yet')
+        return tries
+      }
+    })
+
+    router.enqueueTask({ id: 'a', executor: 'flaky', params: {}, retry: { attempts: 3, backoff: { initialMs: 1 } } })
+    const { result } = await router.waitForResult('a')
+
+    expect(result).toEqual({ data: 3 })
+    expect(router.getTaskAttempts('a').map(attempt => attempt.attempt)).toEqual([1, 2, 3])
+  })
+
+  test('does not retry a policy without attempts', async () => {
+    const router = setup()
+    router.registerExecutor({
+      type: 'broken',
+      run: async () => {
+        throw new Error('Broken')
+      }
+    })
+
+    router.enqueueTask({ id: 'a', executor: 'broken', params: {}, retry: {} as any })
+    const { result } = await router.waitForResult('a')
+
+    expect(result).toMatchObject({ error: { message: 'Broken' } })
+    expect(router.getTaskAttempts('a')).toHaveLength(1)
+  })
+
+  test('times out tries and retries them', async () => {
+    const router = setup()
+
+    router.enqueueTask({
+      id: 'a', executor: 'wait', params: {}, timeoutMs: 20, retry: { attempts: 2, backoff: { initialMs: 1 } }
+    })
+    const { result } = await router.waitForResult('a')
+
+    expect(result).toMatchObject({ error: { message: 'Task a timed out after 20ms' } })
+    expect(router.getTaskAttempts('a').map(attempt => attempt.timedOut)).toEqual([true, true])
+  })
+
+  test('does not time out plans once they settled', async () => {
+    const router = setup()
+
+    router.enqueueTask(planOf('p', [{ id: 'p-last', executor: 'double', params: { n: 1 }, last: true }], {
+      timeoutMs: 50,
+      retry: { attempts: 2 }
+    }))
+    expect((await router.waitForResult('p')).result).toEqual({ data: 2 })
+    await sleep(100)
+
+    expect(router.getTask('p')?.status).toBe('succeeded')
+    expect(router.getTaskAttempts('p')).toHaveLength(1)
+  })
+
+  test('times out plans still unfolding along with their subtasks', async () => {
+    const router = setup()
+
+    router.enqueueTask(planOf('p', [{ id: 'p-wait', executor: 'wait', params: {}, last: true }], {
+      timeoutMs: 50,
+      retry: { attempts: 2 }
+    }))
+    const { result } = await router.waitForResult('p')
+
+    expect(result).toMatchObject({ error: { message: 'Task p timed out after 50ms' } })
+    expect(router.getTask('p-wait')?.status).toBe('cancelled')
+    expect(router.getTaskAttempts('p')).toHaveLength(1)
+  })
+})
+
+describe('Router with a FileTaskStore', () => {
+  let directory: string | undefined
+
+  const storePath = () => {
+    directory = mkdtempSync(join(tmpdir(), 'router-'))
+    return join(directory, 'tasks.log')
+  }
+
+  afterEach(() => {
+    if (directory) rmSync(directory, { recursive: true, force: true })
+    directory = undefined
+  })
+
+  test('restores unfinished tasks and keeps finished ones', async () => {
+    const path = storePath()
+    const before = new Router(undefined, { store: new FileTaskStore(path) })
+    before.registerExecutor({ type: 'double', run: async ({ n }: { n: number }) => n * 2 })
+    before.registerExecutor({ type: 'later', run: () => new Promise(() => {}) })
+
+    before.enqueueTask({ id: 'done', executor: 'double', params: { n: 1 } })
+    await before.waitForResult('done')
+    before.enqueueTask({ id: 'pending', executor: 'later', params: { n: 2 } })
+
+    // restarted while `pending` was running
+    const after = new Router(undefined, { store: new FileTaskStore(path) })
+    expect(after.getTaskResult('done')?.result).toEqual({ data: 2 })
+    expect(after.getTask('pending')?.status).toBe('queued')
+
+    after.registerExecutor({ type: 'later', run: async ({ n }: { n: number }) => n * 3 })
+    expect((await after.waitForResult('pending')).result).toEqual({ data: 6 })
+  })
+
+  test('fails restored tasks no agent registers for in time', async () => {
+    const path = storePath()
+    const before = new Router(undefined, { store: new FileTaskStore(path) })
+    before.registerExecutor({ type: 'later', run: () => new Promise(() => {}) })
+    before.enqueueTask({ id: 'pending', executor: 'later', params: {} })
+
+    const after = new Router(undefined, { store: new FileTaskStore(path), agentGraceMs: 20 })
+    const { result } = await after.waitForResult('pending')
+
+    expect(result).toMatchObject({ error: { code: 'unschedulable' } })
+  })
+
+  test('fails restored plans only their lost agent could settle', async () => {
+    const path = storePath()
+    const before = setup({ store: new FileTaskStore(path) })
+    before.registerExecutor({
+      type: 'unfold',
+      run: async (): Promise<Plan> => {
+        const subtasks = new Emitter<SubTask>()
+        setTimeout(() => subtasks.emit({ id: 'u-wait', executor: 'wait', params: {} }))
+        return { id: 'unfold', subtasks, result: new Promise(() => {}) }
+      }
+    })
+
+    before.enqueueTask({ id: 'u', executor: 'unfold', params: {} })
+    await sleep(20)
+    expect(before.getTask('u-wait')?.status).toBe('running')
+
+    const after = new Router(undefined, { store: new FileTaskStore(path) })
+
+    expect(after.getTaskResult('u')?.result).toMatchObject({ error: { code: 'agent-lost' } })
+    expect(after.getTask('u-wait')?.status).toBe('cancelled')
+  })
+})
+
+describe('retry policy', () => {
+  test('retries up to the attempts, on the reasons given', () => {
+    expect(shouldRetry({ attempts: 2 }, 1, 'error')).toBe(true)
+    expect(shouldRetry({ attempts: 2 }, 2, 'error')).toBe(false)
+    expect(shouldRetry({ attempts: 2, retryOn: ['timeout'] }, 1, 'error')).toBe(false)
+    expect(shouldRetry({} as any, 1, 'error')).toBe(false)
+    expect(shouldRetry(undefined, 1, 'error')).toBe(false)
+  })
+
+  test('backs off exponentially, within what timers support', () => {
+    const policy = { attempts: 100, backoff: { initialMs: 100, factor: 2 } }
+
+    expect([1, 2, 3].map(attempt => backoffDelay(policy, attempt))).toEqual([100, 200, 400])
+    expect(backoffDelay({ ...policy, backoff: { ...policy.backoff, maxMs: 300 } }, 3)).toBe(300)
+    expect(backoffDelay(policy, 60)).toBe(2 ** 31 - 1)
+  })
+})
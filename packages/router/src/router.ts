@@ -1,104 +1,1014 @@
-import { Task, TaskResult, Agent } from '../../types'
-import { TaskQueue, DependencyTaskQueue } from '../../queue'
+import {
+  Task, SubTask, TaskResult, TaskAttempt, TaskLog, TaskStarted, TaskStatus, TaskEvent,
+  TaskSummary, TaskQuery, TaskPage, Agent, Executor, Heartbeat, Unsubscribe
+} from '../../../types'
+import { Emitter } from '../../../emitter'
+import { TaskQueue, DependencyTaskQueue, FairTaskQueue, FairShareOptions } from '../../../queue'
+import { resolveTemplate } from '../../../template'
+import { serializeResultError } from '../../../errors'
+import { FieldError, validate } from '../../../schema'
+import { AgentPool, AgentStatus, BalancingStrategy } from './agent-pool.js'
+import { shouldRetry, backoffDelay, RetryReason } from './retry.js'
+import { AgentLostError, DuplicateTaskError, ParamsValidationError, UnknownDependencyError, UnschedulableError } from './errors.js'
+import { TaskStore, TaskRecord, MemoryTaskStore } from './store.js'
+import { LocalAgent, LocalAgentOptions } from '../../../runner'
+
+export type RouterOptions = {
+  balancing?: BalancingStrategy
+  // times a task is queued again after losing its agent, default 3
+  maxReassignments?: number
+  // where tasks and results are kept, in memory by default
+  store?: TaskStore
+  // output chunks kept per task for clients following its logs late, default 1000
+  maxLogChunks?: number
+  // ms the output and tries of a finished task are kept, default one hour
+  logRetentionMs?: number
+  // fair sharing and priority aging of the default queue
+  scheduling?: FairShareOptions
+  // ms tasks restored after a restart, or lost with their agent, wait for an
+  // agent able to run them to register before failing, default 60000
+  agentGraceMs?: number
+}
+
+export type LogFollower = {
+  onLog(log: TaskLog): void
+  // called once the task has finished, no more logs follow
+  onEnd(result: TaskResult): void
+}
+
+// A task that an agent turned into a plan, its result is the one of the
+// subtask marked `last`, or the one the agent reports for the plan itself
+type PlanExecution = {
+  id: string
+  start: Date
+  lastSubtask?: string
+  // the agent that turned the task into a plan, fed the subtasks' results
+  agentId?: string
+}
 
 export class Router {
-  private agents = new Map<string, Agent>()
+  private pools = new Map<string, AgentPool>()
+  // agent id -> stops listening to it, once unregistered
+  private agentListeners = new Map<string, Unsubscribe>()
   private taskQueue: TaskQueue
-  private taskResults = new Map<string, TaskResult>()
-  private resultEmitter?: (result: TaskResult) => void
+  private store: TaskStore
+  // task id -> id of the agent it was dispatched to
+  private assignments = new Map<string, string>()
+  // dequeued tasks waiting for an agent of their executor type to free up
+  private backlog: Task[] = []
+  private plans = new Map<string, PlanExecution>()
+  // subtask id -> id of the plan it belongs to
+  private subtaskPlans = new Map<string, string>()
+  // dispatched tasks by id, kept to retry them
+  private inFlight = new Map<string, Task>()
+  private attempts = new Map<string, TaskAttempt[]>()
+  private timeouts = new Map<string, ReturnType<typeof setTimeout>>()
+  // tasks waiting out their backoff delay before being queued again
+  private retries = new Map<string, ReturnType<typeof setTimeout>>()
+  private logs = new Map<string, TaskLog[]>()
+  private logFollowers = new Map<string, Set<LogFollower>>()
+  // ids of tasks waiting in the queue on their dependencies
+  private blocked = new Set<string>()
+  // ids of plans whose subtasks' dependencies are checked on the next tick
+  private dependencyChecks = new Set<string>()
+  // queued tasks no agent can run yet, held back rather than failed until
+  // their grace period runs out
+  private awaitingAgent = new Map<string, ReturnType<typeof setTimeout>>()
+  private events = new Emitter<TaskEvent>()
+  private options: RouterOptions
+
+  constructor(taskQueue?: TaskQueue, options: RouterOptions = {}) {
+    this.taskQueue = taskQueue || new FairTaskQueue(options.scheduling)
+    this.options = options
+    this.store = options.store || new MemoryTaskStore()
+
+    // Cycles and failed dependencies surface as results instead of hanging
+    if (this.taskQueue instanceof DependencyTaskQueue) {
+      this.taskQueue.onError((result) => {
+        if (result.cancelled) {
+          console.log(`Task ${result.id} cancelled along with its dependency`)
+        } else {
+          console.error(`Task ${result.id} can never run`)
+        }
+        this.recordResult(result)
+      })
+    }
+
+    this.restore()
+  }
+
+  // Queues again whatever was accepted but didn't finish before a restart
+  private restore(): void {
+    const records = this.store.getRecords()
+
+    for (const { result } of records) {
+      if (result) this.settleDependants(result)
+    }
+
+    let restored = 0
+    for (const { task, planned, result } of records) {
+      if (!task || result) continue
+
+      if (task.span) this.trackSubtask(task)
+      if (planned) {
+        // Its subtasks are restored on their own
+        if (!this.plans.has(task.id)) {
+          this.plans.set(task.id, { id: task.id, start: new Date() })
+        }
+        continue
+      }
 
-  constructor(taskQueue?: TaskQueue) {
-    this.taskQueue = taskQueue || new DependencyTaskQueue()
+      this.queue(task)
+      // Its worker may not have reconnected yet
+      this.awaitAgent(task, () => new UnschedulableError(
+        task.id, task.executor, this.pools.has(task.executor) ? task.requires : undefined
+      ))
+      restored++
+    }
+
+    if (restored) console.log(`Restored ${restored} unfinished tasks`)
+
+    // Plans with no last subtask could only be settled by the run of the
+    // agent building them, which didn't survive the restart
+    for (const plan of Array.from(this.plans.values())) {
+      if (plan.lastSubtask) continue
+      this.losePlan(plan, this.store.getRecord(plan.id)?.agentId || 'unknown')
+    }
+    for (const planId of this.plans.keys()) {
+      this.checkDependencies(planId)
+    }
   }
 
   registerAgent(agent: Agent): void {
-    console.log(`Registering agent with type: ${agent.meta.type}`)
-    this.agents.set(agent.meta.type, agent)
-    
+    console.log(`Registering agent ${agent.id} with type: ${agent.meta.type}`)
+    let pool = this.pools.get(agent.meta.type)
+    if (!pool) {
+      pool = new AgentPool(agent.meta.type, this.options.balancing)
+      this.pools.set(agent.meta.type, pool)
+    }
+    pool.add(agent)
+
     // Set up result listener
-    agent.on((taskOrResult: Task | TaskResult) => {
-      if (this.isTaskResult(taskOrResult)) {
-        console.log(`Router received result: ${taskOrResult.id}`)
-        this.taskResults.set(taskOrResult.id, taskOrResult)
-        
-        // Mark as completed in task queue if it's a dependency queue
-        if (this.taskQueue instanceof DependencyTaskQueue) {
-          this.taskQueue.markCompleted(taskOrResult.id)
+    this.agentListeners.get(agent.id)?.()
+    this.agentListeners.set(agent.id, agent.on((taskOrResult: Task | TaskResult | TaskLog | TaskStarted) => {
+      // Any message proves the agent is alive
+      this.touchAgent(agent.id)
+
+      if (this.isTaskLog(taskOrResult)) {
+        // A task that turned into a plan may go on logging as it unfolds
+        if (this.assignments.get(taskOrResult.id) === agent.id
+          || this.plans.get(taskOrResult.id)?.agentId === agent.id) {
+          this.appendLog(taskOrResult)
+        }
+      } else if (this.isTaskStarted(taskOrResult)) {
+        if (this.assignments.get(taskOrResult.id) === agent.id) {
+          this.transition(taskOrResult.id, 'running')
         }
-        
-        // Emit result to router listeners
-        if (this.resultEmitter) {
-          this.resultEmitter(taskOrResult)
+      } else if (this.isTaskResult(taskOrResult)) {
+        // Plans built as they go may settle with a result of their own
+        const planner = this.plans.get(taskOrResult.id)?.agentId === agent.id
+        // Tries that were cancelled or timed out may still report back,
+        // possibly while the task is being retried, even on the same agent
+        if (taskOrResult.cancelled || !this.isCurrentAttempt(taskOrResult)
+          || (!planner && this.assignments.get(taskOrResult.id) !== agent.id)) {
+          console.log(`Ignoring stale result of task: ${taskOrResult.id}`)
+          return
+        }
+
+        console.log(`Router received result: ${taskOrResult.id}`)
+        if (planner) {
+          this.dropPlan(taskOrResult.id)
+        } else {
+          this.releaseAssignment(taskOrResult.id)
         }
-        
-        // Process next task if available
-        this.processNextTask()
+        this.settleAttempt(serializeResultError(taskOrResult))
+
+        // Capacity was freed, dispatch whatever fits
+        this.drainQueue()
+      } else {
+        this.enqueueSubtask(taskOrResult)
+      }
+    }))
+
+    this.drainQueue()
+  }
+
+  /**
+   * Runs the executor's tasks in this process, no worker or server needed
+   * @return  the agent registered for it, to unregister it by its id
+   */
+  registerExecutor(executor: Executor<any, any, any, any>, options?: LocalAgentOptions): LocalAgent {
+    const agent = new LocalAgent(executor, options)
+    this.registerAgent(agent)
+    return agent
+  }
+
+  unregisterAgent(agentId: string): void {
+    for (const [type, pool] of this.pools.entries()) {
+      if (!pool.remove(agentId)) continue
+
+      console.log(`Unregistering agent ${agentId} with type: ${type}`)
+      if (!pool.size) this.pools.delete(type)
+    }
+    // Whatever it still sends about its tasks is stale once they are reassigned
+    this.agentListeners.get(agentId)?.()
+    this.agentListeners.delete(agentId)
+
+    this.reassignTasks(agentId)
+    this.abandonPlans(agentId)
+    this.drainQueue()
+  }
+
+  recordHeartbeat(agentId: string, heartbeat: Heartbeat): void {
+    this.touchAgent(agentId, heartbeat)
+  }
+
+  private touchAgent(agentId: string, heartbeat?: Heartbeat): void {
+    for (const pool of this.pools.values()) {
+      if (!pool.has(agentId)) continue
+
+      const recovered = !pool.isHealthy(agentId)
+      pool.touch(agentId, heartbeat)
+      if (recovered) {
+        console.log(`Agent ${agentId} is healthy again`)
+        this.drainQueue()
+      }
+    }
+  }
+
+  /**
+   * Marks the given agents unhealthy if they haven't been heard of for
+   * longer than `timeoutMs`, dispatch skips them until they report back
+   */
+  checkLiveness(agentIds: string[], timeoutMs: number): void {
+    const now = Date.now()
+
+    for (const pool of this.pools.values()) {
+      for (const agentId of agentIds) {
+        const lastSeen = pool.getLastSeen(agentId)
+        if (!lastSeen || !pool.isHealthy(agentId)) continue
+        if (now - lastSeen.getTime() <= timeoutMs) continue
+
+        console.warn(`Agent ${agentId} missed its heartbeats, marking it unhealthy`)
+        pool.markUnhealthy(agentId)
+      }
+    }
+  }
+
+  // Tasks sent to a lost agent will never report back, so they are queued
+  // again, until another agent can take them, or past the reassignment
+  // limit, failed
+  private reassignTasks(agentId: string): void {
+    const { maxReassignments = 3 } = this.options
+
+    for (const [taskId, assignee] of Array.from(this.assignments.entries())) {
+      if (assignee !== agentId) continue
+      this.assignments.delete(taskId)
+      this.store.saveAssignment(taskId)
+
+      clearTimeout(this.timeouts.get(taskId))
+      this.timeouts.delete(taskId)
+      const task = this.inFlight.get(taskId)
+      this.inFlight.delete(taskId)
+
+      const now = new Date()
+      const attempt = this.currentAttempt(taskId)
+      if (attempt) {
+        attempt.end = now
+        attempt.agentLost = true
+      }
+
+      const reassignments = this.getTaskAttempts(taskId)
+        .filter(attempt => attempt.agentLost).length
+      if (task && reassignments <= maxReassignments) {
+        console.log(`Reassigning task ${taskId} lost with agent ${agentId}`)
+        this.queue(task)
+        this.awaitAgent(task, () => new AgentLostError(taskId, agentId))
+        continue
       }
-      // Handle tasks if needed (for plan execution, etc.)
+
+      console.error(`Giving up on task ${taskId} lost with agent ${agentId}`)
+      this.recordResult({
+        result: { error: new AgentLostError(taskId, agentId) },
+        start: attempt?.start || now,
+        end: now,
+        id: taskId
+      })
+    }
+  }
+
+  /**
+   * Fails the plans the lost agent was building, which had no last subtask
+   * yet so it was to settle them, cancelling their unfinished subtasks
+   */
+  private abandonPlans(agentId: string): void {
+    for (const plan of Array.from(this.plans.values())) {
+      if (plan.agentId === agentId && !plan.lastSubtask) this.losePlan(plan, agentId)
+    }
+  }
+
+  private losePlan(plan: PlanExecution, agentId: string): void {
+    console.error(`Giving up on plan ${plan.id} lost with agent ${agentId}`)
+    this.dropPlan(plan.id)
+
+    const now = new Date()
+    const attempt = this.currentAttempt(plan.id)
+    if (attempt) {
+      attempt.end = now
+      attempt.agentLost = true
+    }
+    this.recordResult({
+      result: { error: new AgentLostError(plan.id, agentId) },
+      start: plan.start,
+      end: now,
+      id: plan.id
     })
   }
 
-  unregisterAgent(agentType: string): void {
-    console.log(`Unregistering agent with type: ${agentType}`)
-    this.agents.delete(agentType)
+  /**
+   * Keeps the task queued until an agent able to run it registers. If none
+   * has once the grace period is over, the task fails with the given error.
+   */
+  private awaitAgent(task: Task, error: () => Error): void {
+    const { agentGraceMs = 60000 } = this.options
+
+    clearTimeout(this.awaitingAgent.get(task.id))
+    this.awaitingAgent.set(task.id, setTimeout(() => {
+      this.awaitingAgent.delete(task.id)
+      // Left to the queue if it only waits on capacity or dependencies
+      if (this.canServe(task) || this.taskQueue.isBlocked(task.id)) return
+      if (!this.taskQueue.remove(task.id)) return
+
+      console.error(`Giving up on task ${task.id}, no agent able to run it within ${agentGraceMs}ms`)
+      const now = new Date()
+      this.recordResult({ result: { error: error() }, start: now, end: now, id: task.id })
+      this.drainQueue()
+    }, agentGraceMs))
+  }
+
+  private stopAwaitingAgent(taskId: string): void {
+    clearTimeout(this.awaitingAgent.get(taskId))
+    this.awaitingAgent.delete(taskId)
+  }
+
+  private releaseAssignment(taskId: string): void {
+    const agentId = this.assignments.get(taskId)
+    if (!agentId) return
+
+    this.assignments.delete(taskId)
+    this.store.saveAssignment(taskId)
+    for (const pool of this.pools.values()) {
+      pool.release(agentId)
+    }
+  }
+
+  private recordAttempt(task: Task, agentId: string): void {
+    const attempts = this.attempts.get(task.id) || []
+    attempts.push({ attempt: attempts.length + 1, agentId, start: new Date() })
+    this.attempts.set(task.id, attempts)
+    this.inFlight.set(task.id, task)
+
+    if (task.timeoutMs) {
+      this.timeouts.set(task.id, setTimeout(() => this.timeOut(task, agentId), task.timeoutMs))
+    }
+  }
+
+  private currentAttempt(taskId: string): TaskAttempt | undefined {
+    const attempts = this.attempts.get(taskId)
+    return attempts?.[attempts.length - 1]
+  }
+
+  // Results of agents not echoing the attempt are taken as the current one's
+  private isCurrentAttempt(result: TaskResult): boolean {
+    return result.attempt === undefined || result.attempt === this.currentAttempt(result.id)?.attempt
+  }
+
+  private settleAttempt(result: TaskResult): void {
+    clearTimeout(this.timeouts.get(result.id))
+    this.timeouts.delete(result.id)
+
+    const task = this.inFlight.get(result.id)
+    this.inFlight.delete(result.id)
+
+    const attempt = this.currentAttempt(result.id)
+    if (attempt) {
+      attempt.end = new Date()
+      attempt.result = result
+    }
+
+    if (task && this.isFailure(result) && this.retry(task, 'error')) return
+    this.recordResult(result)
   }
 
-  private isTaskResult(item: Task | TaskResult): item is TaskResult {
+  private timeOut(task: Task, agentId: string): void {
+    this.timeouts.delete(task.id)
+    this.inFlight.delete(task.id)
+    console.error(`Task ${task.id} timed out after ${task.timeoutMs}ms`)
+
+    this.findAgent(agentId)?.cancel?.(task.id)
+    this.releaseAssignment(task.id)
+
+    const now = new Date()
+    const attempt = this.currentAttempt(task.id)
+    if (attempt) {
+      attempt.end = now
+      attempt.timedOut = true
+    }
+
+    // A plan still unfolding stops along with its subtasks, whose ids are
+    // taken, so it isn't tried again
+    const plan = this.plans.get(task.id)
+    if (plan || !this.retry(task, 'timeout')) {
+      this.recordResult({
+        result: { error: new Error(`Task ${task.id} timed out after ${task.timeoutMs}ms`) },
+        start: plan?.start || attempt?.start || now,
+        end: now,
+        id: task.id
+      })
+    }
+    if (plan) this.dropPlan(task.id)
+
+    this.drainQueue()
+  }
+
+  // Queues the task again after its backoff delay, if its policy allows
+  private retry(task: Task, reason: RetryReason): boolean {
+    const attempt = this.attempts.get(task.id)?.length || 0
+    if (!shouldRetry(task.retry, attempt, reason)) return false
+
+    const delay = backoffDelay(task.retry, attempt)
+    console.log(`Retrying task ${task.id} in ${delay}ms (attempt ${attempt + 1} of ${task.retry.attempts})`)
+    this.transition(task.id, 'queued')
+    this.retries.set(task.id, setTimeout(() => {
+      this.retries.delete(task.id)
+      this.queue(task)
+      this.drainQueue()
+    }, delay))
+    return true
+  }
+
+  private recordResult(taskResult: TaskResult): void {
+    // Errors raised here, like timeouts, go out as JSON like the workers' ones
+    const result = serializeResultError(taskResult)
+    this.store.saveResult(result)
+    this.blocked.delete(result.id)
+    this.stopAwaitingAgent(result.id)
+    this.expireLogs(result.id)
+
+    this.logFollowers.get(result.id)?.forEach(follower => follower.onEnd(result))
+    this.logFollowers.delete(result.id)
+
+    const status = result.cancelled ? 'cancelled' : this.isFailure(result) ? 'failed' : 'succeeded'
+    this.transition(result.id, status, result)
+
+    this.settleDependants(result)
+    this.settlePlan(result)
+  }
+
+  // Records the task's new status and publishes it, unless it is unchanged
+  private transition(taskId: string, status: TaskStatus, result?: TaskResult): void {
+    if (this.currentStatus(taskId) === status) return
+
+    const transition = { status, time: new Date() }
+    this.store.saveStatus(taskId, transition)
+
+    const event: TaskEvent = { id: taskId, ...transition, ...(result && { result }) }
+    this.events.emit(event)
+  }
+
+  private currentStatus(taskId: string): TaskStatus | undefined {
+    const history = this.store.getRecord(taskId)?.history
+    return history?.[history.length - 1]?.status
+  }
+
+  // Puts the task in the queue, where it may wait on its dependencies
+  private queue(task: Task): void {
+    this.taskQueue.enqueue(task)
+    // Dropped right away if a dependency failed, its result is recorded
+    if (this.store.getResult(task.id)) return
+
+    if (this.taskQueue.isBlocked(task.id)) {
+      this.blocked.add(task.id)
+      this.transition(task.id, 'blocked-on-dependencies')
+    } else {
+      this.transition(task.id, 'queued')
+    }
+  }
+
+  // Unblocks, fails or cancels dependants waiting in the queue
+  private settleDependants(result: TaskResult): void {
+    if (result.cancelled) {
+      this.taskQueue.markCancelled(result.id)
+    } else if (this.isFailure(result)) {
+      this.taskQueue.markFailed(result.id)
+    } else {
+      this.taskQueue.markCompleted(result.id)
+    }
+
+    for (const taskId of Array.from(this.blocked)) {
+      if (this.taskQueue.isBlocked(taskId)) continue
+      this.blocked.delete(taskId)
+      if (!this.store.getResult(taskId)) this.transition(taskId, 'queued')
+    }
+  }
+
+  /**
+   * Schedules a subtask an agent emitted while executing the task
+   * identified by its `span`, on any agent of the subtask's executor type
+   */
+  private enqueueSubtask(subtask: Task): void {
+    const planId = subtask.span
+    if (!planId) {
+      console.error(`Ignoring task ${subtask.id} emitted without a span`)
+      return
+    }
+    if (this.store.getResult(planId)) {
+      console.log(`Ignoring subtask ${subtask.id} of finished task ${planId}`)
+      return
+    }
+    // Ids are shared by every plan, one taking another's would be handed its
+    // results and its dependants
+    if (this.store.getRecord(subtask.id)?.task) {
+      const error = new DuplicateTaskError(subtask.id, planId)
+      console.error(error.message)
+      this.failPlan(planId, error)
+      return
+    }
+
+    let planner: string | undefined
+    if (!this.plans.has(planId)) {
+      console.log(`Task ${planId} turned into a plan`)
+      this.store.savePlanned(planId)
+      // The agent has handed the work over, so the parent no longer holds
+      // its slot, otherwise a saturated agent could wait on its own subtasks
+      planner = this.assignments.get(planId)
+      this.releaseAssignment(planId)
+      // but is still recorded as building it, in case the router restarts
+      if (planner) this.store.saveAssignment(planId, planner)
+    }
+
+    this.trackSubtask(subtask, planner)
+    this.enqueueTask(subtask)
+    this.checkDependencies(planId)
+  }
+
+  /**
+   * Fails the task whose agent emitted an invalid subtask, stopping it from
+   * unfolding any further and cancelling the subtasks it already emitted
+   */
+  private failPlan(planId: string, error: Error): void {
+    if (this.store.getResult(planId)) return
+
+    const agentId = this.assignments.get(planId) || this.plans.get(planId)?.agentId
+    if (agentId) this.findAgent(agentId)?.cancel?.(planId)
+    this.releaseAssignment(planId)
+
+    const now = new Date()
+    const attempt = this.currentAttempt(planId)
+    if (attempt) attempt.end = now
+    this.recordResult({
+      result: { error },
+      start: this.plans.get(planId)?.start || attempt?.start || now,
+      end: now,
+      id: planId
+    })
+    this.dropPlan(planId)
+    this.drainQueue()
+  }
+
+  private checkDependencies(planId: string): void {
+    if (!this.plans.get(planId)?.lastSubtask || this.dependencyChecks.has(planId)) return
+    this.dependencyChecks.add(planId)
+
+    // Lets the subtasks emitted along with the last one in first
+    setTimeout(() => {
+      this.dependencyChecks.delete(planId)
+      this.failUnknownDependencies(planId)
+    })
+  }
+
+  /**
+   * Fails the plan's subtasks waiting on an id no task was submitted with.
+   * Subtasks may come in any order, so only once the one marked `last` has
+   * and every other unfinished one is blocked, as nothing can follow then.
+   */
+  private failUnknownDependencies(planId: string): void {
+    if (!this.plans.get(planId)?.lastSubtask) return
+
+    const pending = Array.from(this.subtaskPlans.entries())
+      .filter(([, id]) => id === planId)
+      .map(([subtaskId]) => subtaskId)
+    if (pending.some(subtaskId => !this.blocked.has(subtaskId))) return
+
+    for (const subtaskId of pending) {
+      const { dependencies = [] } = this.store.getRecord(subtaskId)?.task as SubTask
+      const unknown = dependencies.find(dependency => !this.store.getRecord(dependency)?.task)
+      if (!unknown || !this.taskQueue.remove(subtaskId)) continue
+
+      const error = new UnknownDependencyError(subtaskId, unknown)
+      console.error(error.message)
+      const now = new Date()
+      this.recordResult({ result: { error }, start: now, end: now, id: subtaskId })
+    }
+  }
+
+  private trackSubtask(subtask: Task, agentId?: string): void {
+    const planId = subtask.span!
+    let plan = this.plans.get(planId)
+    if (!plan) {
+      plan = { id: planId, start: new Date(), agentId }
+      this.plans.set(planId, plan)
+    }
+
+    this.subtaskPlans.set(subtask.id, planId)
+    if ((subtask as SubTask).last) {
+      plan.lastSubtask = subtask.id
+    }
+  }
+
+  private settlePlan(result: TaskResult): void {
+    const planId = this.subtaskPlans.get(result.id)
+    if (!planId) return
+    this.subtaskPlans.delete(result.id)
+
+    const plan = this.plans.get(planId)
+    if (!plan) return
+
+    // Plans built as they go, e.g. by a model, decide what's next from it
+    if (plan.agentId) this.findAgent(plan.agentId)?.emit(result)
+    if (plan.lastSubtask !== result.id) {
+      this.checkDependencies(planId)
+      return
+    }
+
+    this.plans.delete(planId)
+    this.endPlanTry(planId)
+    for (const [subtaskId, id] of this.subtaskPlans.entries()) {
+      if (id === planId) this.subtaskPlans.delete(subtaskId)
+    }
+
+    console.log(`Plan ${planId} finished with subtask ${result.id}`)
+    this.recordResult({
+      ...result,
+      start: plan.start,
+      end: new Date(),
+      id: planId
+    } as TaskResult)
+  }
+
+  // Evaluates a subtask's params function or template against its
+  // dependencies' results, in the order they are listed
+  private resolveParams(task: Task): Task {
+    const { params, dependencies = [] } = task as SubTask
+    if (!dependencies.length && typeof params !== 'function') return task
+
+    const depResults = dependencies.map(id => {
+      const result = this.store.getResult(id)?.result as { data?: unknown } | undefined
+      return result?.data
+    })
+
+    return {
+      ...task,
+      params: typeof params === 'function'
+        ? params(...depResults)
+        : resolveTemplate(params, depResults)
+    }
+  }
+
+  private isFailure(result: TaskResult): boolean {
+    if (result.error) return true
+    // Executors wrap their outcome as `result: { data }` or `result: { error }`
+    const payload = result.result as { error?: unknown } | undefined
+    return !!payload && typeof payload === 'object' && 'error' in payload
+  }
+
+  private isTaskLog(item: Task | TaskResult | TaskLog | TaskStarted): item is TaskLog {
+    return 'stream' in item && 'data' in item
+  }
+
+  private appendLog(log: TaskLog): void {
+    const { maxLogChunks = 1000 } = this.options
+    const logs = this.logs.get(log.id) || []
+    logs.push(log)
+    if (logs.length > maxLogChunks) logs.shift()
+    this.logs.set(log.id, logs)
+
+    this.logFollowers.get(log.id)?.forEach(follower => follower.onLog(log))
+  }
+
+  // Drops the task's output and tries, its result is kept in the store
+  private expireLogs(taskId: string): void {
+    const { logRetentionMs = 3600000 } = this.options
+    const timer = setTimeout(() => {
+      this.logs.delete(taskId)
+      this.attempts.delete(taskId)
+    }, logRetentionMs)
+    // doesn't hold up the process from exiting
+    timer.unref?.()
+  }
+
+  getTaskLogs(taskId: string): TaskLog[] {
+    return this.logs.get(taskId) || []
+  }
+
+  /**
+   * Passes the task's output to the follower as it is produced, starting
+   * with what was kept so far. Ends right away if the task already finished.
+   * @return  a function to stop following
+   */
+  followLogs(taskId: string, follower: LogFollower): () => void {
+    this.getTaskLogs(taskId).forEach(log => follower.onLog(log))
+
+    const result = this.store.getResult(taskId)
+    if (result) {
+      follower.onEnd(result)
+      return () => {}
+    }
+
+    const followers = this.logFollowers.get(taskId) || new Set()
+    followers.add(follower)
+    this.logFollowers.set(taskId, followers)
+
+    return () => {
+      followers.delete(follower)
+      if (!followers.size) this.logFollowers.delete(taskId)
+    }
+  }
+
+  private isTaskResult(item: Task | TaskResult | TaskLog | TaskStarted): item is TaskResult {
     return 'result' in item && 'start' in item && 'end' in item
   }
 
-  onResult(listener: (result: TaskResult) => void): void {
-    this.resultEmitter = listener
+  private isTaskStarted(item: Task | TaskResult | TaskLog | TaskStarted): item is TaskStarted {
+    return 'start' in item && !('end' in item) && !('executor' in item)
+  }
+
+  /**
+   * Subscribes to every status transition of every task
+   * @return  a function to unsubscribe
+   */
+  onTaskEvent(listener: (event: TaskEvent) => void): Unsubscribe {
+    return this.events.on(listener)
+  }
+
+  // Status transitions as they happen, for `for await` consumers
+  taskEvents(): AsyncIterableIterator<TaskEvent> {
+    return this.events[Symbol.asyncIterator]()
+  }
+
+  onResult(listener: (result: TaskResult) => void): Unsubscribe {
+    return this.onTaskEvent(event => {
+      if (event.result) listener(event.result)
+    })
+  }
+
+  /**
+   * Checks the task's params against the schema published by the agents of
+   * its executor type. Tasks for a type no agent has registered yet pass.
+   */
+  validateParams(task: Task): FieldError[] {
+    const schema = this.pools.get(task.executor)?.getParamsSchema()
+    return schema ? validate(schema, task.params, 'params') : []
   }
 
   enqueueTask(task: Task): void {
     console.log(`Enqueueing task: ${task.id} for executor: ${task.executor}`)
-    this.taskQueue.enqueue(task)
-    this.processNextTask()
+    this.store.saveTask(task)
+    this.queue(task)
+    this.drainQueue()
+  }
+
+  private drainQueue(): void {
+    // Tasks held back earlier go first so saturation doesn't reorder them
+    const backlog = this.backlog
+    this.backlog = []
+    for (const task of backlog) {
+      this.processTask(task)
+    }
+
+    // Only tasks an agent is free for leave the queue, so the queue's
+    // order still applies to the others once capacity frees up
+    while (this.hasSpareCapacity()) {
+      const task = this.taskQueue.dequeue(task => this.canDispatch(task))
+      if (!task) return
+      this.processTask(task)
+    }
+  }
+
+  // Tasks no agent can run are taken too, to be failed, unless they await one
+  private canDispatch(task: Task): boolean {
+    const pool = this.pools.get(task.executor)
+    if (!pool || !pool.canServe(task.requires)) return !this.awaitingAgent.has(task.id)
+    return pool.hasCapacity(task.requires)
+  }
+
+  private canServe(task: Task): boolean {
+    return !!this.pools.get(task.executor)?.canServe(task.requires)
   }
 
-  private processNextTask(): void {
-    const task = this.taskQueue.dequeue()
-    if (!task) return
+  private hasSpareCapacity(): boolean {
+    if (!this.pools.size) return !this.taskQueue.isEmpty()
+    return Array.from(this.pools.values()).some(pool => pool.hasCapacity())
+  }
+
+  private processTask(task: Task): void {
+    const pool = this.pools.get(task.executor)
+    const schedulable = !!pool && pool.canServe(task.requires)
+    if (pool && schedulable && !pool.hasCapacity(task.requires)) {
+      this.backlog.push(task)
+      return
+    }
 
     console.log(`Processing task: ${task.id} for executor: ${task.executor}`)
-    const agent = this.agents.get(task.executor)
-    if (!agent) {
-      console.error(`No agent found for executor: ${task.executor}`)
-      const error = new Error(`No agent found for executor: ${task.executor}`)
-      const result: TaskResult = {
+    this.stopAwaitingAgent(task.id)
+    const agent = schedulable ? pool.pick(task.requires, task.prefers) : undefined
+    if (!pool || !agent) {
+      const error = new UnschedulableError(task.id, task.executor, pool && task.requires)
+      console.error(error.message)
+      this.recordResult({
         result: { error },
         start: new Date(),
         end: new Date(),
         id: task.id
-      }
-      this.taskResults.set(task.id, result)
-      if (this.resultEmitter) {
-        this.resultEmitter(result)
-      }
+      })
+      return
+    }
+
+    let dispatched: Task
+    try {
+      dispatched = this.resolveParams(task)
+      // Subtasks don't go through the API, so their params are checked once resolved
+      const errors = dispatched.span ? this.validateParams(dispatched) : []
+      if (errors.length) throw new ParamsValidationError(task.id, errors)
+    } catch (error) {
+      console.error(`Invalid params for task: ${task.id}`)
+      this.recordResult({
+        result: { error },
+        start: new Date(),
+        end: new Date(),
+        id: task.id
+      })
       return
     }
 
-    agent.emit(task)
+    dispatched = { ...dispatched, attempt: this.getTaskAttempts(task.id).length + 1 }
+    pool.acquire(agent.id)
+    this.assignments.set(task.id, agent.id)
+    this.store.saveAssignment(task.id, agent.id)
+    this.recordAttempt(dispatched, agent.id)
+    this.transition(task.id, 'dispatched')
+    agent.emit(dispatched)
+  }
+
+  /**
+   * Removes a queued task, or asks the agent running it to stop. Either way
+   * the task gets a cancelled result right away, as do its dependants and,
+   * if it turned into a plan, its unfinished subtasks.
+   * @return  false if the task is unknown or already finished
+   */
+  cancelTask(taskId: string): boolean {
+    if (this.store.getResult(taskId)) return false
+
+    const queued = this.taskQueue.remove(taskId) || this.removeFromBacklog(taskId)
+    this.blocked.delete(taskId)
+    const agentId = this.assignments.get(taskId)
+    const plan = this.plans.get(taskId)
+    const retrying = this.retries.get(taskId)
+    if (!queued && !agentId && !plan && !retrying) return false
+
+    console.log(`Cancelling task: ${taskId}`)
+    if (agentId) {
+      this.findAgent(agentId)?.cancel?.(taskId)
+      this.releaseAssignment(taskId)
+    } else if (plan?.agentId) {
+      // stops the agent from unfolding the plan any further
+      this.findAgent(plan.agentId)?.cancel?.(taskId)
+    }
+    clearTimeout(retrying)
+    this.retries.delete(taskId)
+    clearTimeout(this.timeouts.get(taskId))
+    this.timeouts.delete(taskId)
+    this.inFlight.delete(taskId)
+
+    const now = new Date()
+    this.recordResult({
+      result: { error: new Error(`Task ${taskId} was cancelled`) },
+      start: plan?.start || now,
+      end: now,
+      id: taskId,
+      cancelled: true
+    })
+
+    if (plan) this.dropPlan(taskId)
+
+    this.drainQueue()
+    return true
+  }
+
+  // Forgets a plan that ended without its last subtask, cancelling those left
+  private dropPlan(planId: string): void {
+    this.plans.delete(planId)
+    this.endPlanTry(planId)
+    for (const [subtaskId, id] of Array.from(this.subtaskPlans.entries())) {
+      if (id === planId) this.cancelTask(subtaskId)
+    }
+  }
+
+  // The try that turned into the plan ends with it, so it can't time out later
+  private endPlanTry(planId: string): void {
+    clearTimeout(this.timeouts.get(planId))
+    this.timeouts.delete(planId)
+    this.inFlight.delete(planId)
+  }
+
+  private removeFromBacklog(taskId: string): Task | undefined {
+    const index = this.backlog.findIndex(task => task.id === taskId)
+    if (index === -1) return undefined
+    return this.backlog.splice(index, 1)[0]
+  }
+
+  private findAgent(agentId: string): Agent | undefined {
+    for (const pool of this.pools.values()) {
+      const agent = pool.get(agentId)
+      if (agent) return agent
+    }
+    return undefined
   }
 
   getTaskResult(taskId: string): TaskResult | undefined {
-    return this.taskResults.get(taskId)
+    return this.store.getResult(taskId)
+  }
+
+  // Resolves with the task's result once it finished, right away if it has
+  waitForResult(taskId: string): Promise<TaskResult> {
+    const result = this.store.getResult(taskId)
+    if (result) return Promise.resolve(result)
+
+    return new Promise(resolve => {
+      const unsubscribe = this.onResult(result => {
+        if (result.id !== taskId) return
+        unsubscribe()
+        resolve(result)
+      })
+    })
+  }
+
+  getTask(taskId: string): TaskSummary | undefined {
+    const record = this.store.getRecord(taskId)
+    return record?.task && this.summarize(record.task, record)
+  }
+
+  /**
+   * Tasks matching the query, in the order they were accepted
+   * @return  the page of tasks asked for and the number of all matching
+   */
+  getTasks(query: TaskQuery = {}): TaskPage {
+    const { status, executor, span, since, until, offset = 0, limit = 100 } = query
+
+    const tasks = this.store.getRecords()
+      .filter(record => record.task)
+      .map(record => this.summarize(record.task!, record))
+      .filter(task => {
+        const accepted = task.history[0]?.time
+        return (!status || status.includes(task.status))
+          && (!executor || task.executor === executor)
+          && (!span || task.span === span)
+          && (!since || (!!accepted && accepted >= since))
+          && (!until || (!!accepted && accepted < until))
+      })
+
+    return { tasks: tasks.slice(offset, offset + limit), total: tasks.length }
+  }
+
+  private summarize(task: Task, { history = [], result }: TaskRecord): TaskSummary {
+    return {
+      ...result,
+      id: task.id,
+      executor: task.executor,
+      ...(task.span && { span: task.span }),
+      status: history[history.length - 1]?.status || 'queued',
+      history
+    }
+  }
+
+  getTaskAttempts(taskId: string): TaskAttempt[] {
+    return this.attempts.get(taskId) || []
   }
 
   getTaskQueueSize(): number {
-    return this.taskQueue.size()
+    return this.taskQueue.size() + this.backlog.length
   }
 
   isTaskQueueEmpty(): boolean {
-    return this.taskQueue.isEmpty()
+    return this.taskQueue.isEmpty() && !this.backlog.length
   }
 
   clearTaskQueue(): void {
     this.taskQueue.clear()
+    this.backlog = []
   }
 
-  getRegisteredAgents(): string[] {
-    return Array.from(this.agents.keys())
+  getRegisteredAgents(): AgentStatus[] {
+    return Array.from(this.pools.values()).flatMap(pool => pool.getStatuses())
   }
 }
\ No newline at end of file
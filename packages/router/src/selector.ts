@@ -0,0 +1,36 @@
+import { AgentMeta, AgentSelector } from '../../../types'
+
+const hasLabel = (meta: AgentMeta, key: string, expected: string | string[]) => {
+  const actual = meta.labels?.[key]
+  if (actual === undefined) return false
+  return Array.isArray(expected) ? expected.includes(actual) : actual === expected
+}
+
+// Selectors come from submitted JSON, where missing parts may be null
+const partsOf = (selector?: AgentSelector | null) => ({
+  labels: selector?.labels || {},
+  capabilities: selector?.capabilities || []
+})
+
+// Whether the agent has all of the selector's labels and capabilities
+export function matchesSelector(meta: AgentMeta, selector?: AgentSelector | null): boolean {
+  const { labels, capabilities } = partsOf(selector)
+  return Object.entries(labels).every(([key, expected]) => hasLabel(meta, key, expected))
+    && capabilities.every(capability => !!meta.capabilities?.includes(capability))
+}
+
+// How many of the selector's labels and capabilities the agent has
+export function preferenceScore(meta: AgentMeta, selector?: AgentSelector | null): number {
+  const { labels, capabilities } = partsOf(selector)
+  return Object.entries(labels).filter(([key, expected]) => hasLabel(meta, key, expected)).length
+    + capabilities.filter(capability => meta.capabilities?.includes(capability)).length
+}
+
+// e.g. `arch=arm64, node=20|22, docker`
+export function formatSelector(selector: AgentSelector): string {
+  const { labels, capabilities } = partsOf(selector)
+  return [
+    ...Object.entries(labels).map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('|') : value}`),
+    ...capabilities
+  ].join(', ')
+}
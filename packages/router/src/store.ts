@@ -0,0 +1,183 @@
+import { appendFileSync, existsSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { Task, TaskResult, StatusTransition } from '../../../types'
+
+export type TaskRecord = {
+  task?: Task
+  agentId?: string // set while the task is in flight, or its plan being built
+  planned?: boolean // the task turned into a plan, its subtasks carry on
+  result?: TaskResult
+  history?: StatusTransition[] // oldest first
+}
+
+/**
+ * Where the router keeps accepted tasks, their assignments and results.
+ * Tasks with no result yet are queued again when the router restarts.
+ */
+export interface TaskStore {
+  saveTask(task: Task): void
+  saveAssignment(taskId: string, agentId?: string): void
+  savePlanned(taskId: string): void
+  saveStatus(taskId: string, transition: StatusTransition): void
+  saveResult(result: TaskResult): void
+  getResult(taskId: string): TaskResult | undefined
+  getRecord(taskId: string): TaskRecord | undefined
+  // in the order the tasks were accepted
+  getRecords(): TaskRecord[]
+}
+
+export class MemoryTaskStore implements TaskStore {
+  protected records = new Map<string, TaskRecord>()
+
+  saveTask(task: Task): void {
+    this.record(task.id).task = task
+  }
+
+  saveAssignment(taskId: string, agentId?: string): void {
+    this.record(taskId).agentId = agentId
+  }
+
+  savePlanned(taskId: string): void {
+    this.record(taskId).planned = true
+  }
+
+  saveStatus(taskId: string, transition: StatusTransition): void {
+    const record = this.record(taskId)
+    record.history = [...record.history || [], transition]
+  }
+
+  saveResult(result: TaskResult): void {
+    const record = this.record(result.id)
+    record.result = result
+    record.agentId = undefined
+  }
+
+  getResult(taskId: string): TaskResult | undefined {
+    return this.records.get(taskId)?.result
+  }
+
+  getRecord(taskId: string): TaskRecord | undefined {
+    return this.records.get(taskId)
+  }
+
+  getRecords(): TaskRecord[] {
+    return Array.from(this.records.values())
+  }
+
+  private record(taskId: string): TaskRecord {
+    let record = this.records.get(taskId)
+    if (!record) {
+      record = {}
+      this.records.set(taskId, record)
+    }
+    return record
+  }
+}
+
+type LogEntry =
+  | { type: 'task'; task: Task }
+  | { type: 'assignment'; taskId: string; agentId?: string }
+  | { type: 'planned'; taskId: string }
+  | { type: 'status'; taskId: string; transition: StatusTransition }
+  | { type: 'result'; result: TaskResult }
+
+/**
+ * Keeps records in memory and appends every change to a JSON lines log,
+ * which is replayed and compacted when the store is created
+ */
+export class FileTaskStore extends MemoryTaskStore {
+  constructor(private path: string) {
+    super()
+    if (this.replay()) this.compact()
+  }
+
+  saveTask(task: Task): void {
+    super.saveTask(task)
+    this.append({ type: 'task', task })
+  }
+
+  saveAssignment(taskId: string, agentId?: string): void {
+    super.saveAssignment(taskId, agentId)
+    this.append({ type: 'assignment', taskId, agentId })
+  }
+
+  savePlanned(taskId: string): void {
+    super.savePlanned(taskId)
+    this.append({ type: 'planned', taskId })
+  }
+
+  saveStatus(taskId: string, transition: StatusTransition): void {
+    super.saveStatus(taskId, transition)
+    this.append({ type: 'status', taskId, transition })
+  }
+
+  saveResult(result: TaskResult): void {
+    super.saveResult(result)
+    this.append({ type: 'result', result })
+  }
+
+  // Rewrites the log with one entry per change still relevant
+  compact(): void {
+    const entries: LogEntry[] = []
+    for (const [taskId, record] of this.records.entries()) {
+      if (record.task) entries.push({ type: 'task', task: record.task })
+      if (record.planned) entries.push({ type: 'planned', taskId })
+      for (const transition of record.history || []) {
+        entries.push({ type: 'status', taskId, transition })
+      }
+      if (record.agentId) entries.push({ type: 'assignment', taskId, agentId: record.agentId })
+      if (record.result) entries.push({ type: 'result', result: record.result })
+    }
+
+    const tmp = `${this.path}.tmp`
+    writeFileSync(tmp, entries.map(entry => JSON.stringify(entry) + '\n').join(''))
+    renameSync(tmp, this.path)
+  }
+
+  private append(entry: LogEntry): void {
+    appendFileSync(this.path, JSON.stringify(entry) + '\n')
+  }
+
+  // @return  whether there was a log to replay
+  private replay(): boolean {
+    if (!existsSync(this.path)) return false
+
+    const lines = readFileSync(this.path, 'utf8').split('\n').filter(Boolean)
+    for (const [index, line] of lines.entries()) {
+      let entry: LogEntry
+      try {
+        entry = JSON.parse(line)
+      } catch {
+        // a crash can leave the last line half written
+        console.warn(`Skipping corrupt line ${index + 1} of task log ${this.path}`)
+        continue
+      }
+
+      switch (entry.type) {
+        case 'task':
+          super.saveTask(entry.task)
+          break
+        case 'assignment':
+          super.saveAssignment(entry.taskId, entry.agentId)
+          break
+        case 'planned':
+          super.savePlanned(entry.taskId)
+          break
+        case 'status':
+          super.saveStatus(entry.taskId, {
+            ...entry.transition,
+            time: new Date(entry.transition.time)
+          })
+          break
+        case 'result':
+          super.saveResult({
+            ...entry.result,
+            start: new Date(entry.result.start),
+            end: new Date(entry.result.end)
+          })
+          break
+      }
+    }
+    console.log(`Replayed ${lines.length} entries from task log ${this.path}`)
+    return true
+  }
+}
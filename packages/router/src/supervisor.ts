@@ -1,17 +1,39 @@
 import { Server as SocketIOServer, Socket } from 'socket.io'
 import { Router } from './router.js'
 import { AgentProxy } from './agent-proxy.js'
+import { Authenticator, Credential } from './auth.js'
+import { AgentMeta, Heartbeat } from '../../../types'
+
+export type SupervisorOptions = {
+  // workers not heard of for this long are marked unhealthy, default 15s
+  heartbeatTimeoutMs?: number
+  // workers must present a worker token, scoped to the types they register
+  auth?: Authenticator
+}
 
 export class Supervisor {
   private router: Router
   private io: SocketIOServer
   private agentProxies = new Map<string, AgentProxy>()
+  // agent id -> credential of the worker that first registered it, which
+  // only workers holding the same may register as
+  private owners = new Map<string, Credential | undefined>()
+  private auth: Authenticator
 
-  constructor(router: Router, io: SocketIOServer) {
+  constructor(router: Router, io: SocketIOServer, options: SupervisorOptions = {}) {
     this.router = router
     this.io = io
+    this.auth = options.auth || new Authenticator()
     
+    this.io.use(this.auth.requireSocket('worker'))
     this.setupConnectionHandlers()
+    this.watchLiveness(options.heartbeatTimeoutMs || 15000)
+  }
+
+  private watchLiveness(timeoutMs: number): void {
+    setInterval(() => {
+      this.router.checkLiveness(this.getConnectedWorkers(), timeoutMs)
+    }, Math.max(1000, timeoutMs / 3))
   }
 
   private setupConnectionHandlers(): void {
@@ -19,9 +41,44 @@ export class Supervisor {
       console.log('Worker connected:', socket.id)
       
       // Listen for worker registration
-      socket.on('register-worker', (workerInfo: { id: string, meta: { type: string } }) => {
+      socket.on('register-worker', (workerInfo: { id: string, meta: AgentMeta }) => {
         console.log('Registering worker:', workerInfo)
-        
+
+        if (!this.auth.canServe(socket.data.credential, workerInfo.meta.type)) {
+          console.warn(`Worker ${workerInfo.id} is not allowed to serve executor type ${workerInfo.meta.type}`)
+          socket.emit('registration-ack', {
+            success: false,
+            error: `Not allowed to serve executor type ${workerInfo.meta.type}`
+          })
+          socket.disconnect(true)
+          return
+        }
+
+        const credential: Credential | undefined = socket.data.credential
+        if (this.owners.has(workerInfo.id) && this.owners.get(workerInfo.id) !== credential) {
+          console.warn(`Worker ${workerInfo.id} is registered with another token`)
+          socket.emit('registration-ack', {
+            success: false,
+            error: `Agent id ${workerInfo.id} is registered with another token`
+          })
+          socket.disconnect(true)
+          return
+        }
+        this.owners.set(workerInfo.id, credential)
+
+        const previous = this.agentProxies.get(workerInfo.id)
+        if (previous?.socket === socket) {
+          socket.emit('registration-ack', { success: true })
+          return
+        }
+        // A worker reconnecting before its old socket's disconnect was
+        // noticed: the tasks sent over the old one are lost with it
+        if (previous) {
+          console.log(`Worker ${workerInfo.id} registered again from a new connection`)
+          this.agentProxies.delete(workerInfo.id)
+          this.router.unregisterAgent(workerInfo.id)
+        }
+
         // Create AgentProxy for this worker
         const agentProxy = new AgentProxy(workerInfo.id, workerInfo.meta, socket)
         
@@ -34,17 +91,24 @@ export class Supervisor {
         // Acknowledge registration
         socket.emit('registration-ack', { success: true })
       })
+
+      socket.on('heartbeat', (heartbeat: Heartbeat) => {
+        for (const [id, proxy] of this.agentProxies.entries()) {
+          if (proxy.socket === socket) {
+            this.router.recordHeartbeat(id, heartbeat)
+          }
+        }
+      })
       
       socket.on('disconnect', () => {
         console.log('Worker disconnected:', socket.id)
         
-        // Find and remove the associated agent proxy
-        for (const [id, proxy] of this.agentProxies.entries()) {
+        // Remove the agent proxies of every executor type it registered
+        for (const [id, proxy] of Array.from(this.agentProxies.entries())) {
           if (proxy.socket === socket) {
             console.log(`Removing agent proxy for worker: ${id}`)
             this.agentProxies.delete(id)
-            this.router.unregisterAgent(proxy.meta.type)
-            break
+            this.router.unregisterAgent(proxy.id)
           }
         }
       })
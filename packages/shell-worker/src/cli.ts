@@ -1,25 +1,25 @@
 #!/usr/bin/env node
+import { readFileSync } from 'fs'
 import { ShellWorker } from './index.js'
+import { disconnectOnShutdown, workerOptionsFromEnv } from '../../worker/src/index.js'
+import type { ShellPolicy } from './index.js'
 
 const serverUrl = process.env.SERVER_URL || 'http://localhost:3000'
 const agentId = process.env.AGENT_ID || `shell-agent-${Date.now()}`
+const policy: ShellPolicy | undefined = process.env.SHELL_POLICY_FILE
+  ? JSON.parse(readFileSync(process.env.SHELL_POLICY_FILE, 'utf8'))
+  : undefined
+const maxOutputBytes = process.env.MAX_OUTPUT
+  ? parseInt(process.env.MAX_OUTPUT, 10)
+  : undefined
 
 console.log(`Starting Shell Agent Worker with ID: ${agentId}`)
 console.log(`Connecting to server: ${serverUrl}`)
+if (!policy) {
+  console.warn('No SHELL_POLICY_FILE set, any command is run with the privileges of this process')
+}
 
-const worker = new ShellWorker(agentId, serverUrl)
+const worker = new ShellWorker(agentId, serverUrl, { ...workerOptionsFromEnv(process.env), maxOutputBytes, policy })
 
 worker.connect()
-
-// Handle graceful shutdown
-process.on('SIGINT', () => {
-  console.log('Shutting down gracefully...')
-  worker.disconnect()
-  process.exit(0)
-})
-
-process.on('SIGTERM', () => {
-  console.log('Shutting down gracefully...')
-  worker.disconnect()
-  process.exit(0)
-})
\ No newline at end of file
+disconnectOnShutdown(worker)
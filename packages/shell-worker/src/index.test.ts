@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'bun:test'
+import { Shell, PolicyViolationError } from './index.js'
+import { binariesOf, enforcePolicy } from './policy.js'
+
+describe('binariesOf', () => {
+  test('lists the first word of every command', () => {
+    expect(binariesOf('FOO=1 git status && ls | wc -l; echo $(date)')).toEqual(['git', 'ls', 'wc', 'echo', 'date'])
+  })
+
+  test('sees through quotes and escapes', () => {
+    expect(binariesOf(`\\rm -rf x; 'r'm x; "rm" x`)).toEqual(['rm', 'rm', 'rm'])
+  })
+
+  test('skips wrappers along with their options', () => {
+    expect(binariesOf('env -i rm; env -u HOME FOO=1 rm; nohup rm &; time -p rm')).toEqual(['rm', 'rm', 'rm', 'rm'])
+  })
+
+  test('keeps words the shell would expand', () => {
+    expect(binariesOf('"$cmd" x')).toEqual(['$cmd'])
+  })
+})
+
+describe('enforcePolicy', () => {
+  test('denies programs and commands matching a deny-list', () => {
+    const policy = { denyBinaries: ['rm'], denyCommands: ['*--force*'] }
+
+    expect(() => enforcePolicy(policy, 'env -i \\rm x', binariesOf('env -i \\rm x'))).toThrow(PolicyViolationError)
+    expect(() => enforcePolicy(policy, 'git push --force', ['git'])).toThrow('command is denied')
+    expect(() => enforcePolicy(policy, 'git push', ['git'])).not.toThrow()
+  })
+
+  test('allows only programs matching an allow-list, by name or path', () => {
+    const policy = { allowBinaries: ['git', '/usr/local/bin/*'] }
+
+    expect(() => enforcePolicy(policy, 'git status', ['git'])).not.toThrow()
+    expect(() => enforcePolicy(policy, '/usr/local/bin/tool', ['/usr/local/bin/tool'])).not.toThrow()
+    expect(() => enforcePolicy(policy, '/tmp/tool', ['/tmp/tool'])).toThrow('program is not allowed: /tmp/tool')
+  })
+
+  test('allows only the working directories given', () => {
+    const policy = { allowedCwds: ['/tmp'] }
+
+    expect(() => enforcePolicy(policy, 'ls', ['ls'], '/tmp')).not.toThrow()
+    expect(() => enforcePolicy(policy, 'ls', ['ls'], '/')).toThrow('working directory is not permitted')
+  })
+})
+
+describe('Shell', () => {
+  test('refuses a policy switching user without a group', () => {
+    expect(() => new Shell({ policy: { uid: 1000 } })).toThrow('A shell policy setting uid must set gid too')
+  })
+
+  test('runs commands, failing on a non-zero exit code', async () => {
+    const shell = new Shell()
+
+    expect(await shell.run({ command: 'echo hello' })).toMatchObject({ exitCode: 0, stdout: 'hello\n' })
+    await expect(shell.run({ command: 'exit 3' })).rejects.toThrow('Command failed with code 3')
+  })
+
+  test('rejects commands outside of its policy before running them', async () => {
+    const shell = new Shell({ policy: { denyBinaries: ['rm'] } })
+
+    await expect(shell.run({ command: "'r'm -rf /nonexistent" })).rejects.toMatchObject({ code: 'policy-violation' })
+  })
+
+  test('replaces the environment with env alone, even when missing', async () => {
+    const shell = new Shell()
+
+    const { stdout } = await shell.run({ command: 'echo "${HOME:-none}"', replaceEnv: true })
+    expect(stdout).toBe('none\n')
+  })
+})
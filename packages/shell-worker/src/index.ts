@@ -1,144 +1,221 @@
-import { io, Socket } from 'socket.io-client'
-import { Task, TaskResult, Agent, Executor } from '../../../types'
+import { spawn } from 'child_process'
+import { LogChunk, Stream, Agent, Executor, RunOptions } from '../../../types'
+import { Emitter } from '../../../emitter'
+import { Infer, anyOf, array, boolean, object, optional, record, string } from '../../../schema'
+import { ExecutorWorker, WorkerOptions } from '../../worker/src/index.js'
+import { ShellPolicy, binariesOf, enforcePolicy, withLimits } from './policy.js'
 
-export class Shell implements Executor {
+export { PolicyViolationError } from './policy.js'
+export type { ShellPolicy, ResourceLimits } from './policy.js'
+
+const runOptions = {
+  cwd: optional(string()),
+  env: optional(record(string(), { description: "added to the worker's environment" })),
+  replaceEnv: optional(boolean({ description: 'use `env` alone instead' })),
+  stdin: optional(string()),
+}
+
+export const shellParamsSchema = anyOf(
+  object({
+    command: string(),
+    shell: optional(string({ description: 'runs `<shell> -c <command>`, default `sh`' })),
+    ...runOptions,
+  }),
+  object({
+    argv: array(string(), {
+      minItems: 1,
+      description: 'executed directly, without a shell, so nothing needs quoting'
+    }),
+    ...runOptions,
+  }),
+)
+
+export type ShellParams = Infer<typeof shellParamsSchema>
+
+export type ShellResult = {
+  exitCode: number | null // null when killed by a signal
+  signal: NodeJS.Signals | null
+  stdout: string
+  stderr: string
+  truncated: boolean // output went past `maxOutputBytes` and was cut
+  durationMs: number
+}
+
+// Rejected with when the command exits with a non-zero code or a signal
+export class ShellError extends Error {
+  constructor(readonly result: ShellResult) {
+    super(result.signal
+      ? `Command killed by ${result.signal}`
+      : `Command failed with code ${result.exitCode}`
+    )
+    this.name = 'ShellError'
+  }
+}
+
+export type ShellOptions = {
+  // cap on each of stdout and stderr kept in the result, default 1 MiB
+  maxOutputBytes?: number
+  // commands outside of it are rejected with a PolicyViolationError
+  policy?: ShellPolicy
+}
+
+// Keeps output up to a byte limit, remembering whether anything was cut
+class OutputBuffer {
+  private chunks: Buffer[] = []
+  private size = 0
+  truncated = false
+
+  constructor(private limit: number) {}
+
+  append(data: Buffer): void {
+    const room = this.limit - this.size
+    if (data.length > room) this.truncated = true
+    if (room <= 0) return
+
+    const kept = data.subarray(0, room)
+    this.chunks.push(kept)
+    this.size += kept.length
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString()
+  }
+}
+
+export class Shell implements Executor<ShellParams, ShellResult> {
   readonly type = 'shell'
+  readonly paramsSchema = shellParamsSchema
+
+  constructor(private options: ShellOptions = {}) {
+    // Commands would otherwise keep the worker's group, root's when switching users
+    const { policy } = options
+    if (policy?.uid !== undefined && policy.gid === undefined) {
+      throw new Error('A shell policy setting uid must set gid too')
+    }
+  }
+
+  // A shell other than the default runs arbitrary code with `-c` as well,
+  // so it is checked as a program of the command
+  private enforce(policy: ShellPolicy, params: ShellParams): void {
+    if ('argv' in params) {
+      enforcePolicy(policy, params.argv.join(' '), [params.argv[0]], params.cwd)
+    } else {
+      const binaries = binariesOf(params.command)
+      enforcePolicy(policy, params.command, params.shell ? [params.shell, ...binaries] : binaries, params.cwd)
+    }
+  }
   
-  async run(params: { command: string }): Promise<string> {
-    const { spawn } = await import('child_process')
+  // Resolves with the command's outcome, while stdout and stderr are also
+  // streamed in chunks to the listeners registered with `on`, or iterated
+  // with `for await` until the command exits
+  run(params: ShellParams, options: RunOptions = {}): Promise<ShellResult> & Stream<LogChunk> & AsyncIterable<LogChunk> {
+    const { signal } = options
+    const { maxOutputBytes = 1024 * 1024 } = this.options
+    const logs = new Emitter<LogChunk>()
     
-    return new Promise((resolve, reject) => {
-      const child = spawn('sh', ['-c', params.command], {
-        stdio: 'pipe'
+    const running = new Promise<ShellResult>((resolve, reject) => {
+      if (signal?.aborted) {
+        logs.close()
+        return reject(new Error('Command cancelled'))
+      }
+
+      const { policy } = this.options
+      if (policy) {
+        try {
+          this.enforce(policy, params)
+        } catch (error) {
+          logs.close()
+          return reject(error)
+        }
+      }
+
+      const [file, ...args] = withLimits(
+        'argv' in params ? params.argv : [params.shell || 'sh', '-c', params.command],
+        policy?.limits
+      )
+
+      const start = Date.now()
+      // Detached so the command gets its own process group, which is
+      // killed as a whole on cancellation
+      const child = spawn(file, args, {
+        cwd: params.cwd,
+        env: params.replaceEnv ? params.env || {} : { ...process.env, ...params.env },
+        stdio: 'pipe',
+        detached: true,
+        uid: policy?.uid,
+        gid: policy?.gid
+      })
+
+      // Commands reading stdin get `stdin`, or EOF, rather than hang
+      child.stdin?.on('error', () => {
+        // the command exited without reading it all
       })
+      child.stdin?.end(params.stdin)
+
+      const kill = () => {
+        try {
+          process.kill(-child.pid!, 'SIGKILL')
+        } catch {
+          // the group is already gone
+        }
+      }
+      signal?.addEventListener('abort', kill, { once: true })
       
-      let stdout = ''
-      let stderr = ''
+      const stdout = new OutputBuffer(maxOutputBytes)
+      const stderr = new OutputBuffer(maxOutputBytes)
       
-      child.stdout?.on('data', (data) => {
-        stdout += data.toString()
+      child.stdout?.on('data', (data: Buffer) => {
+        stdout.append(data)
+        logs.emit({ stream: 'stdout', data: data.toString() })
       })
       
-      child.stderr?.on('data', (data) => {
-        stderr += data.toString()
+      child.stderr?.on('data', (data: Buffer) => {
+        stderr.append(data)
+        logs.emit({ stream: 'stderr', data: data.toString() })
       })
       
-      child.on('close', (code) => {
-        if (code === 0) {
-          resolve(stdout)
+      child.on('close', (exitCode, exitSignal) => {
+        signal?.removeEventListener('abort', kill)
+        logs.close()
+        if (signal?.aborted) {
+          return reject(new Error('Command cancelled'))
+        }
+
+        const result: ShellResult = {
+          exitCode,
+          signal: exitSignal,
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          truncated: stdout.truncated || stderr.truncated,
+          durationMs: Date.now() - start
+        }
+
+        if (exitCode === 0) {
+          resolve(result)
         } else {
-          reject(new Error(`Command failed with code ${code}: ${stderr}`))
+          reject(new ShellError(result))
         }
       })
       
       child.on('error', (error) => {
+        signal?.removeEventListener('abort', kill)
+        logs.close()
         reject(error)
       })
     })
-  }
-}
-
-export class ShellWorker implements Agent {
-  readonly meta: { type: string }
-  readonly id: string
-  
-  private socket: Socket
-  private executor: Executor
-  private resultEmitter?: (result: Task | TaskResult) => void
-  private taskResults = new Map<string, TaskResult>()
-
-  constructor(id: string, serverUrl: string) {
-    this.id = id
-    this.meta = { type: 'shell' }
-    this.executor = new Shell()
-    this.socket = io(serverUrl)
-    
-    this.setupSocketHandlers()
-  }
 
-  private setupSocketHandlers(): void {
-    this.socket.on('connect', () => {
-      console.log('Connected to server')
-      // Register with server
-      this.socket.emit('register-worker', {
-        id: this.id,
-        meta: this.meta
-      })
-    })
-    
-    this.socket.on('registration-ack', (data) => {
-      console.log('Registration acknowledged:', data)
-    })
-    
-    this.socket.on('task', (task: Task) => {
-      console.log('Received task:', task)
-      this.processTask(task)
-    })
-    
-    this.socket.on('disconnect', () => {
-      console.log('Disconnected from server')
+    return Object.assign(running, {
+      on: (listener: (chunk: LogChunk) => void) => logs.on(listener),
+      [Symbol.asyncIterator]: () => logs[Symbol.asyncIterator]()
     })
   }
+}
 
-  on(listener: (result: Task | TaskResult) => void): void {
-    this.resultEmitter = listener
-  }
-
-  emit(taskOrResult: Task | TaskResult): void {
-    if (this.isTask(taskOrResult)) {
-      this.processTask(taskOrResult)
-    } else {
-      // Send result to server
-      this.socket.emit('task-result', taskOrResult)
-    }
-  }
-
-  private isTask(item: Task | TaskResult): item is Task {
-    return 'executor' in item && 'params' in item
-  }
-
-  private async processTask(task: Task): Promise<void> {
-    const start = new Date()
-    
-    try {
-      console.log(`Processing task ${task.id}:`, task.params)
-      const response = await this.executor.run(task.params)
-      
-      const result: TaskResult = {
-        result: { data: response },
-        start,
-        end: new Date(),
-        id: task.id
-      }
-      
-      this.taskResults.set(task.id, result)
-      this.socket.emit('task-result', result)
-      
-      if (this.resultEmitter) {
-        this.resultEmitter(result)
-      }
-    } catch (error) {
-      const result: TaskResult = {
-        result: { error },
-        start,
-        end: new Date(),
-        id: task.id
-      }
-      
-      this.taskResults.set(task.id, result)
-      this.socket.emit('task-result', result)
-      
-      if (this.resultEmitter) {
-        this.resultEmitter(result)
-      }
-    }
-  }
-
-  connect(): void {
-    this.socket.connect()
-  }
+export type ShellWorkerOptions = ShellOptions & WorkerOptions
 
-  disconnect(): void {
-    this.socket.disconnect()
+// A worker running shell commands only
+export class ShellWorker extends ExecutorWorker implements Agent {
+  constructor(id: string, serverUrl: string, options: ShellWorkerOptions = {}) {
+    super(id, serverUrl, [new Shell({ maxOutputBytes: options.maxOutputBytes, policy: options.policy })], options)
   }
-}
\ No newline at end of file
+}
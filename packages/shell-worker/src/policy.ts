@@ -0,0 +1,156 @@
+import { realpathSync } from 'fs'
+import { basename, isAbsolute, relative, resolve } from 'path'
+
+export type ResourceLimits = {
+  cpuSeconds?: number
+  memoryBytes?: number // address space
+  maxProcesses?: number // of the user the command runs as
+  fileSizeBytes?: number // largest file the command may write
+}
+
+/**
+ * What the shell worker agrees to run. Patterns are globs where `*` matches
+ * any run of characters and `?` a single one.
+ */
+export type ShellPolicy = {
+  // matched against the whole command, or argv joined with spaces
+  allowCommands?: string[]
+  denyCommands?: string[]
+  // matched against every program invoked: its name, or its path when the
+  // pattern contains a `/`
+  allowBinaries?: string[]
+  denyBinaries?: string[]
+  // directories, along with their subdirectories, commands may run in
+  allowedCwds?: string[]
+  limits?: ResourceLimits
+  // run commands as this user and group, which needs the worker to be root;
+  // a `uid` needs a `gid`, or commands would keep the worker's group
+  uid?: number
+  gid?: number
+}
+
+export class PolicyViolationError extends Error {
+  readonly code = 'policy-violation'
+
+  constructor(readonly reason: string) {
+    super(`Policy violation: ${reason}`)
+    this.name = 'PolicyViolationError'
+  }
+}
+
+const globToRegExp = (pattern: string): RegExp => new RegExp(
+  '^' + pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$',
+  's'
+)
+
+const matchesAny = (patterns: string[], value: string) =>
+  patterns.some(pattern => globToRegExp(pattern).test(value))
+
+const matchesBinary = (patterns: string[], binary: string) =>
+  patterns.some(pattern => globToRegExp(pattern).test(pattern.includes('/') ? binary : basename(binary)))
+
+// Words that start a shell command without being a program
+const SHELL_KEYWORDS = new Set([
+  'if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done',
+  'case', 'esac', 'in', '!', '{', '}'
+])
+
+// Run the program following their options
+const WRAPPERS = new Set(['env', 'nohup', 'time', 'exec', 'command'])
+
+// Options of the wrappers taking the next word as their value
+const OPTIONS_WITH_VALUE = new Set(['-u', '--unset', '-C', '--chdir', '-f', '--format', '-o', '--output', '-a'])
+
+// What the shell makes of quotes and escapes, e.g. `\rm` and `'r'm` are `rm`
+const unquote = (word: string) => word.replace(/\\(.)|['"]/gs, (_, escaped) => escaped ?? '')
+
+/**
+ * Best effort listing of the programs a shell command line invokes: the
+ * first word of every command separated by `;`, `&&`, `||`, `|`, newlines,
+ * subshells and command substitutions, past variable assignments and
+ * wrappers like `env` along with their options. Words the shell would
+ * expand, like `$cmd`, are kept as they are so an allow-list rejects them.
+ */
+export function binariesOf(command: string): string[] {
+  const segments = command.split(/;|&&|\|\||\||&|\n|\$\(|`|\(|\)/)
+  const binaries: string[] = []
+
+  for (const segment of segments) {
+    const words = segment.trim().split(/\s+/).filter(Boolean).map(unquote)
+    let wrapped = false
+    for (let index = 0; index < words.length; index++) {
+      const word = words[index]
+      if (/^\w+=/.test(word) || SHELL_KEYWORDS.has(word)) continue
+      if (WRAPPERS.has(word)) {
+        wrapped = true
+        continue
+      }
+      if (wrapped && word.startsWith('-')) {
+        if (OPTIONS_WITH_VALUE.has(word)) index++
+        continue
+      }
+      binaries.push(word)
+      break
+    }
+  }
+  return binaries
+}
+
+const within = (directory: string, root: string) => {
+  const path = relative(root, directory)
+  return path === '' || (!path.startsWith('..') && !isAbsolute(path))
+}
+
+// Resolves symlinks so they can't lead out of a permitted directory
+const realpath = (path: string) => {
+  try {
+    return realpathSync(path)
+  } catch {
+    return resolve(path)
+  }
+}
+
+/**
+ * Checks what a shell task is about to run against the policy
+ * @param   command the command line, or argv joined with spaces
+ * @param   binaries the programs it invokes
+ * @throws  PolicyViolationError
+ */
+export function enforcePolicy(policy: ShellPolicy, command: string, binaries: string[], cwd?: string): void {
+  const { allowCommands, denyCommands, allowBinaries, denyBinaries, allowedCwds } = policy
+
+  if (denyCommands && matchesAny(denyCommands, command)) {
+    throw new PolicyViolationError(`command is denied: ${command}`)
+  }
+  if (allowCommands && !matchesAny(allowCommands, command)) {
+    throw new PolicyViolationError(`command is not allowed: ${command}`)
+  }
+
+  for (const binary of binaries) {
+    if (denyBinaries && matchesBinary(denyBinaries, binary)) {
+      throw new PolicyViolationError(`program is denied: ${binary}`)
+    }
+    if (allowBinaries && !matchesBinary(allowBinaries, binary)) {
+      throw new PolicyViolationError(`program is not allowed: ${binary}`)
+    }
+  }
+
+  if (allowedCwds) {
+    const directory = realpath(cwd || process.cwd())
+    if (!allowedCwds.some(root => within(directory, realpath(root)))) {
+      throw new PolicyViolationError(`working directory is not permitted: ${directory}`)
+    }
+  }
+}
+
+// Prefixes argv with `prlimit` setting the policy's resource limits, if any
+export function withLimits(argv: string[], limits: ResourceLimits = {}): string[] {
+  const options = [
+    limits.cpuSeconds !== undefined && `--cpu=${limits.cpuSeconds}`,
+    limits.memoryBytes !== undefined && `--as=${limits.memoryBytes}`,
+    limits.maxProcesses !== undefined && `--nproc=${limits.maxProcesses}`,
+    limits.fileSizeBytes !== undefined && `--fsize=${limits.fileSizeBytes}`
+  ].filter((option): option is string => !!option)
+
+  return options.length ? ['prlimit', ...options, '--', ...argv] : argv
+}
@@ -0,0 +1,232 @@
+import { io, Socket } from 'socket.io-client'
+import { freemem, totalmem, loadavg } from 'os'
+import {
+  Task, TaskResult, TaskLog, TaskStarted, AgentMeta, Executor, Heartbeat, Unsubscribe,
+} from '../../../types'
+import { ExecutorRunner } from '../../../runner'
+
+export { ExecutorRunner, LocalAgent } from '../../../runner'
+export type { LocalAgentOptions } from '../../../runner'
+
+export type WorkerOptions = {
+  // max number of tasks the router keeps in flight per executor type
+  maxConcurrency?: number
+  heartbeatIntervalMs?: number // default 5000
+  // presented to the router when connecting, if it requires authentication
+  token?: string
+  // advertised for every executor, tasks select agents by them
+  labels?: Record<string, string>
+  capabilities?: string[]
+}
+
+/**
+ * Reads what a worker advertises from the environment: `AGENT_LABELS`, as
+ * comma-separated `key=value` pairs, and `AGENT_CAPABILITIES`, comma-separated
+ */
+export function advertisedFromEnv(env: Record<string, string | undefined>): Pick<WorkerOptions, 'labels' | 'capabilities'> {
+  const list = (value?: string) => (value || '').split(',').map(item => item.trim()).filter(Boolean)
+
+  const labels: Record<string, string> = {}
+  for (const pair of list(env.AGENT_LABELS)) {
+    const separator = pair.indexOf('=')
+    if (separator < 1) throw new Error(`AGENT_LABELS entries need to be key=value, got ${pair}`)
+    labels[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim()
+  }
+  const capabilities = list(env.AGENT_CAPABILITIES)
+
+  return {
+    ...(Object.keys(labels).length && { labels }),
+    ...(capabilities.length && { capabilities })
+  }
+}
+
+/**
+ * Reads the options every worker takes from the environment:
+ * `MAX_CONCURRENCY`, `HEARTBEAT_INTERVAL`, `AUTH_TOKEN`, and what it
+ * advertises, see advertisedFromEnv
+ */
+export function workerOptionsFromEnv(env: Record<string, string | undefined>): WorkerOptions {
+  return {
+    maxConcurrency: env.MAX_CONCURRENCY ? parseInt(env.MAX_CONCURRENCY, 10) : undefined,
+    heartbeatIntervalMs: env.HEARTBEAT_INTERVAL ? parseInt(env.HEARTBEAT_INTERVAL, 10) : undefined,
+    token: env.AUTH_TOKEN,
+    ...advertisedFromEnv(env)
+  }
+}
+
+/**
+ * Connects executors to a router: registers each executor's type, runs the
+ * tasks the router sends with the executor of their type, and reports back
+ * their output, the subtasks of the plans they turn into, and their results.
+ *
+ * With a single executor the worker registers under its own id, with more
+ * under `<id>:<type>`, so the router tracks capacity per executor.
+ */
+export class ExecutorWorker {
+  readonly id: string
+  readonly metas: AgentMeta[]
+
+  private socket: Socket
+  private runner: ExecutorRunner
+  private heartbeat?: ReturnType<typeof setInterval>
+
+  constructor(
+    id: string,
+    serverUrl: string,
+    executors: Executor<any, any, any, any>[],
+    private options: WorkerOptions = {},
+  ) {
+    if (!executors.length) throw new Error('A worker needs at least one executor')
+
+    this.id = id
+    this.runner = new ExecutorRunner(executors)
+    this.metas = executors.map(executor => ({
+      type: executor.type,
+      maxConcurrency: options.maxConcurrency,
+      paramsSchema: executor.paramsSchema,
+      labels: options.labels,
+      capabilities: options.capabilities
+    }))
+
+    this.socket = io(serverUrl, {
+      ...(options.token && { auth: { token: options.token } })
+    })
+
+    this.setupSocketHandlers()
+    this.runner.on(event => this.report(event))
+  }
+
+  // What a worker with a single executor registers as
+  get meta(): AgentMeta {
+    return this.metas[0]
+  }
+
+  agentId(type: string): string {
+    return this.metas.length === 1 ? this.id : `${this.id}:${type}`
+  }
+
+  private setupSocketHandlers(): void {
+    this.socket.on('connect', () => {
+      console.log('Connected to server')
+      // Register with server, once per executor type
+      for (const meta of this.metas) {
+        this.socket.emit('register-worker', {
+          id: this.agentId(meta.type),
+          meta
+        })
+      }
+      this.startHeartbeat()
+    })
+
+    this.socket.on('registration-ack', (data: { success: boolean, error?: string }) => {
+      if (data.success) {
+        console.log('Registration acknowledged:', data)
+      } else {
+        console.error('Registration rejected:', data.error)
+      }
+    })
+
+    // Network failures are retried, a token the router refuses isn't
+    this.socket.on('connect_error', (error) => {
+      if (this.socket.active) return
+      console.error('Connection refused:', error.message)
+    })
+
+    this.socket.on('task', (task: Task) => {
+      console.log('Received task:', task)
+      this.runner.run(task)
+    })
+
+    // Results of subtasks, sent to the task whose plan emitted them
+    this.socket.on('task-result', (result: TaskResult) => {
+      this.runner.signal({ ...result, start: new Date(result.start), end: new Date(result.end) })
+    })
+
+    this.socket.on('cancel-task', (taskId: string) => {
+      console.log('Cancelling task:', taskId)
+      this.runner.cancel(taskId)
+    })
+
+    this.socket.on('disconnect', () => {
+      console.log('Disconnected from server')
+      this.stopHeartbeat()
+    })
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat()
+    this.heartbeat = setInterval(() => {
+      this.socket.emit('heartbeat', this.getHeartbeat())
+    }, this.options.heartbeatIntervalMs || 5000)
+  }
+
+  private stopHeartbeat(): void {
+    clearInterval(this.heartbeat)
+    this.heartbeat = undefined
+  }
+
+  private getHeartbeat(): Heartbeat {
+    const { rss, heapUsed } = process.memoryUsage()
+    return {
+      load: loadavg(),
+      memory: { rss, heapUsed, free: freemem(), total: totalmem() },
+      running: this.runner.size
+    }
+  }
+
+  on(listener: (event: Task | TaskResult | TaskLog | TaskStarted) => void): Unsubscribe {
+    return this.runner.on(listener)
+  }
+
+  emit(taskOrResult: Task | TaskResult): void {
+    if (this.isTask(taskOrResult)) {
+      this.runner.run(taskOrResult)
+    } else {
+      this.runner.signal(taskOrResult)
+    }
+  }
+
+  private isTask(item: Task | TaskResult): item is Task {
+    return 'executor' in item && 'params' in item
+  }
+
+  cancel(taskId: string): void {
+    this.runner.cancel(taskId)
+  }
+
+  // Sends what the runner reports to the router, by kind
+  private report(event: Task | TaskResult | TaskLog | TaskStarted): void {
+    if ('executor' in event) {
+      if (typeof event.params === 'function') {
+        console.warn(`Params function of subtask ${event.id} can't be sent to the router, use a template instead`)
+      }
+      this.socket.emit('task', event)
+    } else if ('end' in event) {
+      this.socket.emit('task-result', event)
+    } else if ('stream' in event) {
+      this.socket.emit('task-log', event)
+    } else {
+      this.socket.emit('task-started', event)
+    }
+  }
+
+  connect(): void {
+    this.socket.connect()
+  }
+
+  disconnect(): void {
+    this.stopHeartbeat()
+    this.socket.disconnect()
+  }
+}
+
+// Disconnects the worker before exiting on SIGINT or SIGTERM
+export function disconnectOnShutdown(worker: ExecutorWorker): void {
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      console.log('Shutting down gracefully...')
+      worker.disconnect()
+      process.exit(0)
+    })
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, test, expect } from 'bun:test'
+import { SubTask, Task, TaskResult } from './types'
+import { DependencyTaskQueue, FairTaskQueue } from './queue'
+
+const task = (id: string, options: Partial<SubTask> = {}): Task =>
+  ({ id, executor: 'shell', params: {}, ...options } as Task)
+
+// Dequeues everything ready, in order
+const drain = (queue: DependencyTaskQueue): string[] => {
+  const ids: string[] = []
+  for (let next = queue.dequeue(); next; next = queue.dequeue()) ids.push(next.id)
+  return ids
+}
+
+// Records what the queue dropped as it goes
+const errorsOf = (queue: DependencyTaskQueue): TaskResult[] => {
+  const errors: TaskResult[] = []
+  queue.onError(result => errors.push(result))
+  return errors
+}
+
+describe('DependencyTaskQueue', () => {
+  test('holds tasks back until their dependencies complete', () => {
+    const queue = new DependencyTaskQueue()
+
+    queue.enqueue(task('b', { dependencies: ['a'] }))
+    queue.enqueue(task('a'))
+
+    expect(queue.isBlocked('b')).toBe(true)
+    expect(drain(queue)).toEqual(['a'])
+
+    queue.markCompleted('a')
+    expect(drain(queue)).toEqual(['b'])
+    expect(queue.isEmpty()).toBe(true)
+  })
+
+  test('fails the tasks of a dependency cycle', () => {
+    const queue = new DependencyTaskQueue()
+    const errors = errorsOf(queue)
+
+    queue.enqueue(task('a', { dependencies: ['c'] }))
+    queue.enqueue(task('b', { dependencies: ['a'] }))
+    queue.enqueue(task('c', { dependencies: ['b'] }))
+
+    expect(errors.map(error => error.id).sort()).toEqual(['a', 'b', 'c'])
+    expect((errors[0].result as { error: Error }).error.message).toBe('Dependency cycle detected: c -> b -> a -> c')
+    expect(queue.isEmpty()).toBe(true)
+  })
+
+  test('fails dependants of a failed task, transitively', () => {
+    const queue = new DependencyTaskQueue()
+    const errors = errorsOf(queue)
+
+    queue.enqueue(task('b', { dependencies: ['a'] }))
+    queue.enqueue(task('c', { dependencies: ['b'] }))
+    queue.markFailed('a')
+    queue.enqueue(task('d', { dependencies: ['a'] }))
+
+    expect(errors.map(error => [error.id, !!error.cancelled])).toEqual([['b', false], ['c', false], ['d', false]])
+    expect(queue.isEmpty()).toBe(true)
+  })
+
+  test('cancels dependants of a cancelled task', () => {
+    const queue = new DependencyTaskQueue()
+    const errors = errorsOf(queue)
+
+    queue.enqueue(task('b', { dependencies: ['a'] }))
+    queue.markCancelled('a')
+    queue.enqueue(task('c', { dependencies: ['b'] }))
+
+    expect(errors.map(error => [error.id, !!error.cancelled])).toEqual([['b', true], ['c', true]])
+  })
+
+  test('skips tasks not accepted', () => {
+    const queue = new DependencyTaskQueue()
+
+    queue.enqueue(task('a'))
+    queue.enqueue(task('b'))
+
+    expect(queue.dequeue(next => next.id !== 'a')?.id).toBe('b')
+    expect(queue.dequeue(() => false)).toBeUndefined()
+    expect(queue.size()).toBe(1)
+  })
+})
+
+describe('FairTaskQueue', () => {
+  test('dispatches higher priorities first', () => {
+    const queue = new FairTaskQueue()
+
+    queue.enqueue(task('low', { priority: -1 }))
+    queue.enqueue(task('normal'))
+    queue.enqueue(task('high', { priority: 5 }))
+
+    expect(drain(queue)).toEqual(['high', 'normal', 'low'])
+  })
+
+  test('takes turns between spans by weight', () => {
+    const queue = new FairTaskQueue({ weights: { big: 2 } })
+
+    for (const id of ['b1', 'b2', 'b3', 'b4']) queue.enqueue(task(id, { span: 'big' }))
+    for (const id of ['s1', 's2']) queue.enqueue(task(id, { span: 'small' }))
+
+    expect(drain(queue)).toEqual(['b1', 's1', 'b2', 'b3', 's2', 'b4'])
+  })
+
+  test('lets priority decide between spans', () => {
+    const queue = new FairTaskQueue()
+
+    queue.enqueue(task('a1', { span: 'a' }))
+    queue.enqueue(task('a2', { span: 'a' }))
+    queue.enqueue(task('b1', { span: 'b', priority: 1 }))
+
+    expect(drain(queue)).toEqual(['b1', 'a1', 'a2'])
+  })
+
+  test('raises the priority of tasks as they wait', async () => {
+    const queue = new FairTaskQueue({ agingMs: 10 })
+
+    queue.enqueue(task('old'))
+    await new Promise(resolve => setTimeout(resolve, 30))
+    queue.enqueue(task('new', { priority: 1 }))
+
+    expect(drain(queue)).toEqual(['old', 'new'])
+  })
+
+  test('takes priorities that are not numbers as 0', () => {
+    const queue = new FairTaskQueue()
+
+    queue.enqueue(task('odd', { priority: 'high' as any }))
+    queue.enqueue(task('high', { priority: 1 }))
+
+    expect(drain(queue)).toEqual(['high', 'odd'])
+  })
+})
@@ -0,0 +1,329 @@
+import { Task, SubTask, TaskResult, Unsubscribe } from './types'
+import { Emitter } from './emitter'
+
+export class TaskQueue {
+  protected tasks: Task[] = []
+
+  enqueue(task: Task): void {
+    this.ready(task)
+  }
+
+  // Takes the first task `accept` agrees to, e.g. one an agent is free for
+  dequeue(accept: (task: Task) => boolean = () => true): Task | undefined {
+    const index = this.tasks.findIndex(accept)
+    if (index === -1) return undefined
+    return this.tasks.splice(index, 1)[0]
+  }
+
+  size(): number {
+    return this.tasks.length
+  }
+
+  isEmpty(): boolean {
+    return this.size() === 0
+  }
+
+  clear(): void {
+    this.tasks = []
+  }
+
+  remove(taskId: string): Task | undefined {
+    const index = this.tasks.findIndex(task => task.id === taskId)
+    if (index === -1) return undefined
+    return this.tasks.splice(index, 1)[0]
+  }
+
+  // Plain FIFO has nothing waiting on completion, these are hooks for subclasses
+  isBlocked(_taskId: string): boolean {
+    return false
+  }
+
+  markCompleted(_taskId: string): void {}
+
+  markFailed(_taskId: string): void {}
+
+  markCancelled(_taskId: string): void {}
+
+  // Makes the task available to dequeue
+  protected ready(task: Task): void {
+    this.tasks.push(task)
+  }
+}
+
+/**
+ * Holds back a SubTask until every id in its `dependencies` has completed.
+ * Tasks that can never run, because they are part of a dependency cycle or
+ * depend on a task that failed, are dropped and reported through `onError`.
+ * Dependants of a cancelled task are reported there as cancelled.
+ */
+export class DependencyTaskQueue extends TaskQueue {
+  private waiting = new Map<string, Task>()
+  private completed = new Set<string>()
+  private failed = new Set<string>()
+  private cancelled = new Set<string>()
+  private errors = new Emitter<TaskResult>()
+
+  onError(listener: (result: TaskResult) => void): Unsubscribe {
+    return this.errors.on(listener)
+  }
+
+  enqueue(task: Task): void {
+    const dependencies = this.dependenciesOf(task)
+
+    const cancelledDependency = dependencies.find(id => this.cancelled.has(id))
+    if (cancelledDependency) {
+      this.cancel(task, `Dependency ${cancelledDependency} of task ${task.id} was cancelled`)
+      return
+    }
+
+    const failedDependency = dependencies.find(id => this.failed.has(id))
+    if (failedDependency) {
+      this.fail(task, `Dependency ${failedDependency} of task ${task.id} failed`)
+      return
+    }
+
+    if (this.isReady(task)) {
+      this.ready(task)
+      return
+    }
+
+    this.waiting.set(task.id, task)
+
+    const cycle = this.findCycle(task.id)
+    if (cycle) {
+      const path = [...cycle, cycle[0]].join(' -> ')
+      const blocked = cycle.map(id => this.waiting.get(id)!)
+      // Drop the whole cycle first so every member reports the cycle itself
+      // rather than the failure of its neighbour
+      blocked.forEach(task => this.waiting.delete(task.id))
+      blocked.forEach(task => this.fail(task, `Dependency cycle detected: ${path}`))
+    }
+  }
+
+  size(): number {
+    return this.tasks.length + this.waiting.size
+  }
+
+  clear(): void {
+    super.clear()
+    this.waiting.clear()
+    this.completed.clear()
+    this.failed.clear()
+    this.cancelled.clear()
+  }
+
+  remove(taskId: string): Task | undefined {
+    const task = this.waiting.get(taskId)
+    if (!task) return super.remove(taskId)
+
+    this.waiting.delete(taskId)
+    return task
+  }
+
+  // Whether the task is held back until its dependencies complete
+  isBlocked(taskId: string): boolean {
+    return this.waiting.has(taskId)
+  }
+
+  markCompleted(taskId: string): void {
+    this.completed.add(taskId)
+
+    for (const [id, task] of this.waiting.entries()) {
+      if (this.isReady(task)) {
+        this.waiting.delete(id)
+        this.ready(task)
+      }
+    }
+  }
+
+  markFailed(taskId: string): void {
+    if (this.failed.has(taskId)) return
+    this.failed.add(taskId)
+
+    for (const task of Array.from(this.waiting.values())) {
+      if (this.dependenciesOf(task).includes(taskId)) {
+        this.fail(task, `Dependency ${taskId} of task ${task.id} failed`)
+      }
+    }
+  }
+
+  markCancelled(taskId: string): void {
+    if (this.cancelled.has(taskId)) return
+    this.cancelled.add(taskId)
+
+    for (const task of Array.from(this.waiting.values())) {
+      if (this.dependenciesOf(task).includes(taskId)) {
+        this.cancel(task, `Dependency ${taskId} of task ${task.id} was cancelled`)
+      }
+    }
+  }
+
+  private fail(task: Task, message: string): void {
+    this.drop(task, message)
+    // Anything waiting on this task is now unreachable as well
+    this.markFailed(task.id)
+  }
+
+  private cancel(task: Task, message: string): void {
+    this.drop(task, message, true)
+    this.markCancelled(task.id)
+  }
+
+  private drop(task: Task, message: string, cancelled = false): void {
+    this.waiting.delete(task.id)
+
+    const now = new Date()
+    this.errors.emit({
+      result: { error: new Error(message) },
+      start: now,
+      end: now,
+      id: task.id,
+      ...(cancelled && { cancelled })
+    })
+  }
+
+  private isReady(task: Task): boolean {
+    return this.dependenciesOf(task).every(id => this.completed.has(id))
+  }
+
+  private dependenciesOf(task: Task): string[] {
+    return (task as SubTask).dependencies || []
+  }
+
+  // Walks the waiting tasks' dependencies from `startId`, returning the ids
+  // forming a cycle back to it, if any
+  private findCycle(startId: string): string[] | undefined {
+    const visited = new Set<string>()
+
+    const visit = (id: string, path: string[]): string[] | undefined => {
+      const task = this.waiting.get(id)
+      if (!task) return undefined
+
+      for (const dependency of this.dependenciesOf(task)) {
+        if (dependency === startId) return path
+        if (visited.has(dependency)) continue
+        visited.add(dependency)
+
+        const cycle = visit(dependency, [...path, dependency])
+        if (cycle) return cycle
+      }
+      return undefined
+    }
+
+    return visit(startId, [startId])
+  }
+}
+
+export type FairShareOptions = {
+  // what capacity is shared between, by default each submitted task along
+  // with the subtasks of its plan
+  shareKey?: (task: Task) => string
+  // share of each key relative to the others, default 1
+  weights?: Record<string, number>
+  // a ready task gains a priority level for every this many ms it waits, default 30000
+  agingMs?: number
+}
+
+/**
+ * Dependency queue dispatching fairly between share keys, the spans by
+ * default, so one big plan can't starve other submissions. The task with the
+ * highest priority goes first, its priority rising a level the longer it
+ * waits; keys with a task at the top level take turns by smooth weighted
+ * round-robin.
+ */
+export class FairTaskQueue extends DependencyTaskQueue {
+  private readyAt = new Map<string, number>()
+  // round-robin credit of the keys with tasks ready
+  private credits = new Map<string, number>()
+
+  constructor(private options: FairShareOptions = {}) {
+    super()
+  }
+
+  dequeue(accept: (task: Task) => boolean = () => true): Task | undefined {
+    const now = Date.now()
+    const groups = new Map<string, Task[]>()
+    // highest priority level of the tasks ready by key
+    const levels = new Map<string, number>()
+    const present = new Set<string>()
+    let top = -Infinity
+    for (const task of this.tasks) {
+      const key = this.keyOf(task)
+      present.add(key)
+      if (!accept(task)) continue
+
+      const group = groups.get(key)
+      if (group) {
+        group.push(task)
+      } else {
+        groups.set(key, [task])
+      }
+      const level = Math.max(levels.get(key) ?? -Infinity, this.level(task, now))
+      levels.set(key, level)
+      top = Math.max(top, level)
+    }
+
+    // Keys with nothing left start over rather than bank credit
+    for (const key of Array.from(this.credits.keys())) {
+      if (!present.has(key)) this.credits.delete(key)
+    }
+    if (!groups.size) return undefined
+
+    // Only keys with a task at the top level take turns
+    const contenders = Array.from(levels.keys()).filter(key => levels.get(key) === top)
+
+    let total = 0
+    let chosen = ''
+    let best = -Infinity
+    for (const key of contenders) {
+      const weight = this.options.weights?.[key] ?? 1
+      const credit = (this.credits.get(key) || 0) + weight
+      this.credits.set(key, credit)
+      total += weight
+      if (credit > best) {
+        best = credit
+        chosen = key
+      }
+    }
+    this.credits.set(chosen, best - total)
+
+    const task = groups.get(chosen)!.reduce((first, task) =>
+      this.effectivePriority(task, now) > this.effectivePriority(first, now) ? task : first
+    )
+
+    this.tasks.splice(this.tasks.indexOf(task), 1)
+    this.readyAt.delete(task.id)
+    return task
+  }
+
+  remove(taskId: string): Task | undefined {
+    this.readyAt.delete(taskId)
+    return super.remove(taskId)
+  }
+
+  clear(): void {
+    super.clear()
+    this.readyAt.clear()
+    this.credits.clear()
+  }
+
+  protected ready(task: Task): void {
+    this.readyAt.set(task.id, Date.now())
+    super.ready(task)
+  }
+
+  private keyOf(task: Task): string {
+    return this.options.shareKey ? this.options.shareKey(task) : task.span || task.id
+  }
+
+  // Priority levels compared between keys, tasks on the same level are equal
+  private level(task: Task, now: number): number {
+    return Math.floor(this.effectivePriority(task, now))
+  }
+
+  private effectivePriority(task: Task, now: number): number {
+    const { agingMs = 30000 } = this.options
+    const waited = now - (this.readyAt.get(task.id) ?? now)
+    return (Number(task.priority) || 0) + waited / agingMs
+  }
+}
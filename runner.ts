@@ -0,0 +1,222 @@
+import {
+  Task, SubTask, TaskResult, TaskLog, TaskStarted, LogChunk, Plan, Agent, AgentMeta, Executor, Unsubscribe,
+} from './types'
+import { Emitter } from './emitter'
+import { serializeError } from './errors'
+
+type PlanRun = {
+  controller: AbortController
+  signal: (result: TaskResult) => void
+  lastSubtask?: string
+}
+
+/**
+ * Runs tasks with the executor of their type, wherever they come from.
+ * Reports when they start, their output, the subtasks of the plans they turn
+ * into, with the task's id as `span`, and their results, to its listeners.
+ */
+export class ExecutorRunner {
+  private executors = new Map<string, Executor<any, any, any, any>>()
+  private events = new Emitter<Task | TaskResult | TaskLog | TaskStarted>()
+  private running = new Map<string, AbortController>()
+  // Executors taking in the results of the subtasks they emit, by id of the
+  // task they run, kept until the subtask marked `last` reports back
+  private plans = new Map<string, PlanRun>()
+  // subtask id -> id of the task whose plan emitted it
+  private subtaskPlans = new Map<string, string>()
+
+  constructor(executors: Executor<any, any, any, any>[]) {
+    for (const executor of executors) {
+      if (this.executors.has(executor.type)) {
+        throw new Error(`Executor type ${executor.type} is given twice`)
+      }
+      this.executors.set(executor.type, executor)
+    }
+  }
+
+  // tasks currently executing
+  get size(): number {
+    return this.running.size
+  }
+
+  on(listener: (event: Task | TaskResult | TaskLog | TaskStarted) => void): Unsubscribe {
+    return this.events.on(listener)
+  }
+
+  // Passes the result of a subtask to the executor whose plan emitted it
+  signal(result: TaskResult): void {
+    const planId = this.subtaskPlans.get(result.id)
+    const plan = planId && this.plans.get(planId)
+    if (!plan) return
+
+    plan.signal(result)
+    if (plan.lastSubtask === result.id) this.endPlan(planId)
+  }
+
+  private endPlan(planId: string): void {
+    this.plans.delete(planId)
+    for (const [subtaskId, id] of Array.from(this.subtaskPlans.entries())) {
+      if (id === planId) this.subtaskPlans.delete(subtaskId)
+    }
+  }
+
+  cancel(taskId: string): void {
+    this.running.get(taskId)?.abort()
+
+    const plan = this.plans.get(taskId)
+    if (plan) {
+      plan.controller.abort()
+      this.endPlan(taskId)
+    }
+  }
+
+  async run(task: Task): Promise<void> {
+    const start = new Date()
+    const controller = new AbortController()
+    this.running.set(task.id, controller)
+    this.events.emit({ id: task.id, start })
+    // whether the task turned into a plan still going on after the run
+    let unfolding = false
+
+    try {
+      const executor = this.executors.get(task.executor)
+      if (!executor) {
+        throw new Error(`No executor of type ${task.executor} to run task ${task.id}`)
+      }
+
+      console.log(`Processing task ${task.id}:`, task.params)
+      const running = executor.run(task.params, { signal: controller.signal })
+      let planned = false
+      if (running.emit) {
+        this.plans.set(task.id, { controller, signal: result => running.emit!(result) })
+      }
+
+      // Executors may stream output, or a plan's subtasks, while they run
+      running.on?.((item: Task | Plan | LogChunk) => {
+        if (this.isLogChunk(item)) {
+          this.events.emit({ ...item, id: task.id, time: new Date() })
+          return
+        }
+        planned = true
+        this.forwardPlanItem(task.id, item)
+      })
+
+      const response = await running
+
+      if (this.isPlan(response)) {
+        unfolding = true
+        this.forwardPlanItem(task.id, response)
+        response.result?.then(
+          data => this.report(task, start, { data }),
+          error => this.report(task, start, { error: serializeError(error) }, controller.signal.aborted)
+        ).finally(() => {
+          if (this.plans.get(task.id)?.controller === controller) this.endPlan(task.id)
+        })
+        return
+      }
+      // The router reports the result of the subtask marked `last` instead
+      if (planned) {
+        unfolding = true
+        return
+      }
+
+      this.report(task, start, { data: response })
+    } catch (error) {
+      this.report(task, start, { error: serializeError(error) }, controller.signal.aborted)
+    } finally {
+      // A retry of the task may have started here since
+      if (this.running.get(task.id) === controller) this.running.delete(task.id)
+      if (!unfolding && this.plans.get(task.id)?.controller === controller) this.endPlan(task.id)
+    }
+  }
+
+  private report(task: Task, start: Date, result: { data: unknown } | { error: unknown }, cancelled = false): void {
+    this.events.emit({
+      result,
+      start,
+      end: new Date(),
+      id: task.id,
+      ...(task.attempt !== undefined && { attempt: task.attempt }),
+      ...(cancelled && { cancelled })
+    })
+  }
+
+  private isLogChunk(item: object): item is LogChunk {
+    return 'stream' in item && 'data' in item
+  }
+
+  private isPlan(data: any): data is Plan {
+    return typeof data === 'object' && data !== null && 'subtasks' in data
+  }
+
+  /**
+   * Hands a plan's subtasks over to the router, which schedules them across
+   * all agents. Nested plans are flattened into the span of the top task.
+   */
+  private forwardPlanItem(span: string, item: Task | SubTask | Plan): void {
+    if (this.isPlan(item)) {
+      item.subtasks.on((nested) => this.forwardPlanItem(span, nested))
+      return
+    }
+
+    const plan = this.plans.get(span)
+    if (plan) {
+      this.subtaskPlans.set(item.id, span)
+      if ((item as SubTask).last) plan.lastSubtask = item.id
+    }
+
+    console.log(`Emitting subtask ${item.id} of task ${span}`)
+    this.events.emit({ ...item, span } as Task)
+  }
+}
+
+export type LocalAgentOptions = {
+  id?: string // default the executor's type and a number, e.g. `shell-1`
+  // max number of tasks the router keeps in flight on it, unlimited if omitted
+  maxConcurrency?: number
+  labels?: Record<string, string>
+  capabilities?: string[]
+}
+
+// numbers the local agents not given an id, so each registers on its own
+let localAgents = 0
+
+/**
+ * An agent running an executor in the router's own process, for tests and
+ * single binary deployments. Tasks, results and output are passed as they
+ * are, without going through the network or JSON.
+ */
+export class LocalAgent implements Agent {
+  readonly id: string
+  readonly meta: AgentMeta
+
+  private runner: ExecutorRunner
+
+  constructor(executor: Executor<any, any, any, any>, options: LocalAgentOptions = {}) {
+    this.id = options.id || `${executor.type}-${++localAgents}`
+    this.meta = {
+      type: executor.type,
+      maxConcurrency: options.maxConcurrency,
+      paramsSchema: executor.paramsSchema,
+      labels: options.labels,
+      capabilities: options.capabilities
+    }
+    this.runner = new ExecutorRunner([executor])
+  }
+
+  on(listener: (event: Task | TaskResult | TaskLog | TaskStarted) => void): Unsubscribe {
+    return this.runner.on(listener)
+  }
+
+  emit(taskOrResult: Task | TaskResult): void {
+    if ('executor' in taskOrResult) {
+      this.runner.run(taskOrResult)
+    } else {
+      this.runner.signal(taskOrResult)
+    }
+  }
+
+  cancel(taskId: string): void {
+    this.runner.cancel(taskId)
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * A small builder of JSON Schemas that also carry the TypeScript type they
+ * describe, so an executor's params type and the schema the router checks
+ * submitted tasks against come from one definition:
+ *
+ *   const paramsSchema = object({ url: string(), retries: optional(number()) })
+ *   type Params = Infer<typeof paramsSchema> // { url: string, retries?: number }
+ *
+ * The schemas are plain JSON and are sent to the router as they are.
+ */
+
+export type JsonSchema = {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'
+  description?: string
+  const?: unknown
+  enum?: unknown[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  minItems?: number
+  anyOf?: JsonSchema[]
+}
+
+declare const type: unique symbol
+const optionalKey = Symbol('optional')
+
+// `type` only exists at compile time, to infer what the schema describes
+export type Schema<T> = JsonSchema & { readonly [type]?: T }
+
+type Optional<T> = Schema<T> & { readonly [optionalKey]: true }
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+type Flatten<T> = { [K in keyof T]: T[K] } & {}
+
+type ObjectOf<P extends Record<string, Schema<any>>> = Flatten<
+  & { [K in keyof P as P[K] extends Optional<any> ? never : K]: Infer<P[K]> }
+  & { [K in keyof P as P[K] extends Optional<any> ? K : never]?: Infer<P[K]> }
+>
+
+type Options = Pick<JsonSchema, 'description'>
+
+export const string = (options: Options = {}): Schema<string> =>
+  ({ type: 'string', ...options })
+
+export const number = (options: Options = {}): Schema<number> =>
+  ({ type: 'number', ...options })
+
+export const integer = (options: Options = {}): Schema<number> =>
+  ({ type: 'integer', ...options })
+
+export const boolean = (options: Options = {}): Schema<boolean> =>
+  ({ type: 'boolean', ...options })
+
+// Any JSON value
+export const json = (options: Options = {}): Schema<unknown> =>
+  ({ ...options })
+
+export const literal = <T extends string | number | boolean>(value: T): Schema<T> =>
+  ({ const: value })
+
+export const oneOf = <T extends string | number>(values: readonly T[]): Schema<T> =>
+  ({ enum: [...values] })
+
+export const array = <T>(
+  items: Schema<T>,
+  options: Options & { minItems?: number } = {},
+): Schema<T[]> => ({ type: 'array', items, ...options })
+
+// An object with arbitrary keys and values of one schema
+export const record = <T>(values: Schema<T>, options: Options = {}): Schema<Record<string, T>> =>
+  ({ type: 'object', additionalProperties: values, ...options })
+
+// Marks a property of an `object` as optional
+export const optional = <T>(schema: Schema<T>): Optional<T> =>
+  ({ ...schema, [optionalKey]: true }) as Optional<T>
+
+export const object = <P extends Record<string, Schema<any>>>(
+  properties: P,
+  options: Options = {},
+): Schema<ObjectOf<P>> => {
+  const required = Object.keys(properties)
+    .filter(key => !(properties[key] as Partial<Optional<unknown>>)[optionalKey])
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length && { required }),
+    additionalProperties: false,
+    ...options
+  }
+}
+
+export const anyOf = <S extends Schema<any>[]>(...schemas: S): Schema<Infer<S[number]>> =>
+  ({ anyOf: schemas })
+
+export type FieldError = {
+  field: string
+  message: string
+}
+
+const typeOf = (value: unknown): JsonSchema['type'] => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value as JsonSchema['type']
+}
+
+/**
+ * Checks a value against the subset of JSON Schema built above
+ * @param   field name of the value, prefixing the fields errors point at
+ * @return  an error per offending field, empty if the value is valid
+ */
+export function validate(schema: JsonSchema, value: unknown, field = '$'): FieldError[] {
+  const error = (message: string): FieldError[] => [{ field, message }]
+
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map(branch => validate(branch, value, field))
+    if (branches.some(errors => !errors.length)) return []
+    // Report against the closest match
+    return branches.reduce((closest, errors) => errors.length < closest.length ? errors : closest)
+  }
+
+  if ('const' in schema && value !== schema.const) {
+    return error(`must be ${JSON.stringify(schema.const)}`)
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return error(`must be one of ${schema.enum.map(entry => JSON.stringify(entry)).join(', ')}`)
+  }
+
+  if (schema.type) {
+    const actual = typeOf(value)
+    const matches = schema.type === 'integer'
+      ? Number.isInteger(value)
+      : actual === schema.type
+    if (!matches) return error(`must be ${schema.type === 'integer' ? 'an' : 'a'} ${schema.type}`)
+  }
+
+  if (Array.isArray(value)) {
+    const errors: FieldError[] = []
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ field, message: `must have at least ${schema.minItems} items` })
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validate(schema.items!, item, `${field}[${index}]`)))
+    }
+    return errors
+  }
+
+  if (typeOf(value) === 'object' && (schema.properties || schema.additionalProperties !== undefined)) {
+    const object = value as Record<string, unknown>
+    const properties = schema.properties || {}
+    const errors: FieldError[] = []
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        errors.push({ field: `${field}.${key}`, message: 'is required' })
+      }
+    }
+
+    for (const [key, entry] of Object.entries(object)) {
+      if (entry === undefined) continue
+
+      const property = properties[key]
+      if (property) {
+        errors.push(...validate(property, entry, `${field}.${key}`))
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: `${field}.${key}`, message: 'is not allowed' })
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validate(schema.additionalProperties, entry, `${field}.${key}`))
+      }
+    }
+    return errors
+  }
+
+  return []
+}
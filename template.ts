@@ -0,0 +1,123 @@
+/**
+ * JSON-safe parameter templates for subtasks. Unlike a `params` function,
+ * a template survives the trip over the wire: any value in it may be a
+ * reference to the result of one of the subtask's dependencies, e.g.
+ *
+ *   {
+ *     dependencies: ['build', 'lint'],
+ *     params: { command: ref(0, 'artifacts.0.path'), verbose: true }
+ *   }
+ *
+ * `$dep` is the index into `dependencies`, `path` a dotted path into that
+ * dependency's result (`items[0].name` is accepted as well as `items.0.name`).
+ */
+
+export type ParamRef<
+  N extends number = number,
+  P extends string = string,
+> = {
+  $dep: N
+  path?: P
+}
+
+type Depth = [never, 0, 1, 2, 3, 4, 5]
+
+// Dotted paths into T, limited in depth to keep the checker fast
+export type Path<T, D extends number = 5> = [D] extends [never]
+  ? never
+  : T extends readonly (infer E)[]
+    ? `${number}` | `${number}.${Path<E, Depth[D]>}`
+    : T extends object
+      ? {
+          [K in keyof T & string]: K | `${K}.${Path<T[K], Depth[D]>}`
+        }[keyof T & string]
+      : never
+
+type Field<T, K extends string> = T extends readonly (infer E)[]
+  ? K extends `${number}` ? E : never
+  : K extends keyof T ? T[K] : never
+
+export type PathValue<T, P extends string> =
+  P extends `${infer K}.${infer Rest}`
+    ? PathValue<Field<T, K>, Rest>
+    : Field<T, P>
+
+type PathsTo<R, T> = {
+  [P in Path<R>]: PathValue<R, P> extends T ? P : never
+}[Path<R>]
+
+type Indices<Deps extends readonly unknown[]> = {
+  [K in keyof Deps]: K extends `${infer N extends number}` ? N : never
+}[number]
+
+// References into Deps whose value is assignable to T
+type RefTo<T, Deps extends readonly unknown[]> =
+  number extends Deps['length']
+    // dependency results aren't known statically, anything goes
+    ? ParamRef
+    : {
+        [N in Indices<Deps>]:
+          | (Deps[N] extends T ? { $dep: N; path?: never } : never)
+          | { $dep: N; path: PathsTo<Deps[N], T> }
+      }[Indices<Deps>]
+
+/**
+ * Params of type T where any value may instead reference the result of a
+ * dependency, Deps being the tuple of the dependencies' result types
+ */
+export type Template<T, Deps extends readonly unknown[] = unknown[]> =
+  | T
+  | RefTo<T, Deps>
+  | (T extends object ? { [K in keyof T]: Template<T[K], Deps> } : never)
+
+export function ref<N extends number>($dep: N): { $dep: N }
+export function ref<N extends number, P extends string>($dep: N, path: P): { $dep: N; path: P }
+export function ref($dep: number, path?: string): ParamRef {
+  return path === undefined ? { $dep } : { $dep, path }
+}
+
+export function isParamRef(value: unknown): value is ParamRef {
+  return typeof value === 'object'
+    && value !== null
+    && typeof (value as ParamRef).$dep === 'number'
+    && Object.keys(value).every(key => key === '$dep' || key === 'path')
+}
+
+export function readPath(value: unknown, path?: string): unknown {
+  if (!path) return value
+
+  const keys = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean)
+  return keys.reduce<any>(
+    (current, key) => current === undefined || current === null ? undefined : current[key],
+    value,
+  )
+}
+
+/**
+ * Replaces every reference in a template with the value it points to
+ * @param   depResults results of the dependencies, in the order listed
+ */
+export function resolveTemplate<T>(template: Template<T>, depResults: unknown[]): T {
+  const resolve = (value: unknown): unknown => {
+    if (isParamRef(value)) {
+      if (value.$dep < 0 || value.$dep >= depResults.length) {
+        throw new Error(
+          `Template references dependency ${value.$dep} but only ${depResults.length} are listed`
+        )
+      }
+      return readPath(depResults[value.$dep], value.path)
+    }
+
+    if (Array.isArray(value)) return value.map(resolve)
+
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, nested]) => [key, resolve(nested)])
+      )
+    }
+
+    return value
+  }
+
+  return resolve(template) as T
+}
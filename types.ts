@@ -1,11 +1,44 @@
+import { Template } from './template'
+import { JsonSchema, Schema } from './schema'
+
+// The form errors take in results, so they survive JSON serialization
+export type SerializedError = {
+  name: string
+  message: string
+  stack?: string
+  cause?: unknown
+  [property: string]: unknown // e.g. `code`, copied from the error
+}
+
 export type Result<T = unknown> = 
   | { error?: never; result: T }
-  | { error: {} }
+  | { error: {}; result?: never }
 
 export type TaskResult<T = unknown> = Result<T> & {
   start: Date
   end: Date
   id: string
+  cancelled?: boolean // stopped on request before it could finish
+  attempt?: number // of the task it reports on, echoed back by agents
+}
+
+export type RetryPolicy = {
+  attempts: number // total number of tries, including the first one
+  backoff?: {
+    initialMs?: number // delay before the first retry, default 1000
+    factor?: number // growth of the delay per retry, default 2
+    maxMs?: number
+  }
+  retryOn?: ('error' | 'timeout')[] // default both
+}
+
+/**
+ * Which agents of its executor type a task may run on. An agent matches if
+ * it has all of the labels, with one of the values given, and capabilities.
+ */
+export type AgentSelector = {
+  labels?: Record<string, string | string[]>
+  capabilities?: string[]
 }
 
 export type Task<T extends {} = {}> = {
@@ -13,21 +46,108 @@ export type Task<T extends {} = {}> = {
   span?: string // id of the plan that spun it up
   id: string
   params: T
+  priority?: number // higher is dispatched first among its span's tasks, default 0
+  timeoutMs?: number // the task is killed when a try runs longer than this
+  retry?: RetryPolicy
+  // only agents matching it may run the task
+  requires?: AgentSelector
+  // among those, agents matching more of it are picked first
+  prefers?: AgentSelector
+  attempt?: number // set by the router on each try it dispatches, from 1
+}
+
+export type TaskAttempt = {
+  attempt: number
+  agentId: string
+  start: Date
+  end?: Date
+  timedOut?: boolean
+  agentLost?: boolean // the agent disconnected before reporting back
+  result?: TaskResult
+}
+
+export type TaskStatus =
+  | 'queued' // waiting for an agent
+  | 'blocked-on-dependencies'
+  | 'dispatched' // sent to an agent
+  | 'running' // the agent reported it started
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled'
+
+export type StatusTransition = {
+  status: TaskStatus
+  time: Date
+}
+
+// Sent by an agent as it starts executing a task
+export type TaskStarted = {
+  id: string
+  start: Date
+}
+
+// Published by the router on every status transition, with the result
+// once the task has finished
+export type TaskEvent = StatusTransition & {
+  id: string
+  result?: TaskResult
 }
 
-export type SubTask<T extends {} = {}> = Task<T> & {
+// What the router reports about a task, with the result's fields once finished
+export type TaskSummary = Partial<TaskResult> & {
+  id: string
+  executor: string
+  span?: string
+  status: TaskStatus
+  history: StatusTransition[]
+}
+
+export type TaskQuery = {
+  status?: TaskStatus[]
+  executor?: string
+  span?: string
+  since?: Date // accepted at or after
+  until?: Date // accepted before
+  offset?: number
+  limit?: number // default 100
+}
+
+export type TaskPage = {
+  tasks: TaskSummary[]
+  total: number // matching the query, regardless of pagination
+}
+
+export type SubTask<
+  T extends {} = {},
+  Deps extends readonly unknown[] = any[],
+> = Omit<Task<T>, 'params'> & {
   dependencies?: string[] // task ids
   last?: boolean
   /**
+   * Either a function or, for subtasks sent over the wire, a JSON-safe
+   * template referencing the dependencies' results (see template.ts)
    * @param   {...depencies} results of other subtasks
    *          whose ids are listed in dependencies, in that order
    * @return  params for the task
    */ 
-  params(..._): T
+  params: ((...depResults: Deps) => T) | Template<T, Deps>
+}
+
+// A piece of output an executor streams while it runs
+export type LogChunk = {
+  stream: 'stdout' | 'stderr'
+  data: string
 }
 
+export type TaskLog = LogChunk & {
+  id: string // of the task that produced it
+  time: Date
+}
+
+export type Unsubscribe = () => void
+
 export type Stream<T> = {
-  on(listener: (_: T) => void): void
+  on(listener: (_: T) => void): Unsubscribe
 }
 
 export type Emiter<T> = {
@@ -39,25 +159,61 @@ export type Plan = {
   // the design is intentionally for plan to be dynamic and
   // potentially not deterministic at the start of execution
   subtasks: Stream<SubTask | Plan>
+  // settles with the plan's result, for plans built as they go that don't
+  // end with a subtask marked `last`
+  result?: Promise<unknown>
 }
 
 export type Channel<In, Out> = Stream<Out> & Emiter<In>
 
+export type AgentMeta = {
+  type: string
+  // max number of tasks the agent accepts at once, unlimited if omitted
+  maxConcurrency?: number
+  // what submitted tasks' params are checked against, see Executor
+  paramsSchema?: JsonSchema
+  // what the agent is or runs on, e.g. `{ arch: 'arm64', node: '22' }`
+  labels?: Record<string, string>
+  // what it can do besides its executor type, e.g. `['docker']`
+  capabilities?: string[]
+}
+
+// Periodic liveness report from a worker
+export type Heartbeat = {
+  load: number[] // 1, 5 and 15 minute load averages
+  memory: {
+    rss: number
+    heapUsed: number
+    free: number // bytes free on the host
+    total: number
+  }
+  running: number // tasks currently executing
+}
+
 export interface Agent extends Channel<
   Task | TaskResult,
-  Task | TaskResult
+  Task | TaskResult | TaskLog | TaskStarted
 > {
-  readonly meta: { type: string }
+  readonly meta: AgentMeta
   readonly id: string
+  // stops a task previously emitted to the agent, if it is still running
+  cancel?(taskId: string): void
+}
+
+export type RunOptions = {
+  // aborted when the task is cancelled
+  signal?: AbortSignal
 }
 
 export type Executor<
   In extends {} = {},
   Out = any,
-  Event extends Task | Plan = Task | Plan,
+  Event extends Task | Plan | LogChunk = Task | Plan | LogChunk,
   Signal extends TaskResult = TaskResult,
 > = {
   type: string
-  run(_: In): Promise<Out>
+  // published to the router, which rejects tasks whose params don't match
+  paramsSchema?: Schema<In>
+  run(_: In, options?: RunOptions): Promise<Out>
     & Partial<Channel<Signal, Event>>
 }
\ No newline at end of file